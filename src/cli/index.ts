@@ -3,12 +3,126 @@
 import { Command } from 'commander'
 import { consola } from 'consola'
 import { resolve } from 'pathe'
-import { existsSync } from 'node:fs'
+import { existsSync, writeFileSync } from 'node:fs'
 import { generateComposablesWithErrorHandling } from '../core/generator'
-import type { GeneratorConfig } from '../core/types'
+import { watchComposables } from '../core/watcher'
+import { isSchemaUrl } from '../core/schema-fetcher'
+import { addFilterExpression } from '../core/filter'
+import {
+  DEFAULT_CONFIG,
+  loadConfigFile,
+  findConfigFile,
+  mergeConfig,
+  resolveConfigPaths,
+  toGeneratorConfig,
+  createConfigFileContent
+} from '../core/config-loader'
+import type { GroupBy, GroupingRule, NamingStrategy, OperationFilter, UserConfig } from '../core/types'
 
 const program = new Command()
 
+/**
+ * Collect repeated options into an array
+ */
+function collectList(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+/**
+ * Collect repeated "glob=resource" grouping rules
+ */
+function collectGroupRule(value: string, previous: GroupingRule[]): GroupingRule[] {
+  const separatorIndex = value.lastIndexOf('=')
+  if (separatorIndex <= 0) {
+    throw new Error(`Invalid group rule "${value}", expected "glob=resource"`)
+  }
+  return [
+    ...previous,
+    { match: value.slice(0, separatorIndex).trim(), resource: value.slice(separatorIndex + 1).trim() }
+  ]
+}
+
+/**
+ * Collect repeated "Name: value" header options into a record
+ */
+function collectHeader(value: string, previous: Record<string, string>): Record<string, string> {
+  const separatorIndex = value.indexOf(':')
+  if (separatorIndex <= 0) {
+    throw new Error(`Invalid header "${value}", expected "Name: value"`)
+  }
+  return {
+    ...previous,
+    [value.slice(0, separatorIndex).trim()]: value.slice(separatorIndex + 1).trim()
+  }
+}
+
+/**
+ * Collect repeated --include/--exclude expressions into a filter
+ */
+function collectFilter(value: string, previous: OperationFilter | undefined): OperationFilter {
+  return addFilterExpression(previous || {}, value)
+}
+
+/**
+ * Options of the `generate` command as parsed by commander
+ */
+interface GenerateOptions {
+  config?: string
+  schema?: string
+  header?: Record<string, string>
+  cacheDir?: string
+  output?: string
+  cookie?: string
+  types?: boolean
+  typesOutput?: string
+  typesImport?: string
+  apiPrefix?: string
+  groupBy?: GroupBy
+  basePath?: string[]
+  groupRule?: GroupingRule[]
+  include?: OperationFilter
+  exclude?: OperationFilter
+  failOn?: UserConfig['validationFailOn']
+  naming?: NamingStrategy
+  queries?: UserConfig['queries']
+  check?: boolean
+  dryRun?: boolean
+  watch?: boolean
+  baseApiPath?: string
+  useApiImport?: string
+}
+
+/**
+ * Map `generate` options to config options; options that aren't set stay undefined
+ */
+function toUserConfig(options: GenerateOptions): UserConfig {
+  const grouping = {
+    groupBy: options.groupBy,
+    basePath: options.basePath?.length ? options.basePath : undefined,
+    rules: options.groupRule?.length ? options.groupRule : undefined
+  }
+
+  return {
+    schemaPath: options.schema,
+    schemaHeaders: options.header && Object.keys(options.header).length > 0 ? options.header : undefined,
+    schemaCacheDir: options.cacheDir,
+    outputDir: options.output,
+    cookieName: options.cookie,
+    baseApiPath: options.baseApiPath,
+    useApiImportPath: options.useApiImport,
+    generateTypes: options.types,
+    typesOutputPath: options.typesOutput,
+    typesImportPath: options.typesImport,
+    apiPrefix: options.apiPrefix,
+    validationFailOn: options.failOn,
+    include: options.include,
+    exclude: options.exclude,
+    queries: options.queries,
+    naming: options.naming ? { strategy: options.naming } : undefined,
+    grouping: Object.values(grouping).some(value => value !== undefined) ? grouping : undefined
+  }
+}
+
 program
   .name('nuxt-openapi-composables')
   .description('Generate type-safe Nuxt composables from OpenAPI schemas')
@@ -17,30 +131,45 @@ program
 program
   .command('generate')
   .description('Generate composables from OpenAPI schema')
+  .option(
+    '--config <path>',
+    'Config file (default: openapi-composables.config.{ts,mjs,json} in the current directory)'
+  )
   .option(
     '-s, --schema <path>',
-    'Path to OpenAPI schema file',
-    './schema/api.json'
+    'Path or http(s) URL of the OpenAPI schema (JSON or YAML)',
+    DEFAULT_CONFIG.schemaPath
+  )
+  .option(
+    '-H, --header <header>',
+    'Header sent when fetching the schema from a URL, e.g. "Authorization: Bearer token" (repeatable)',
+    collectHeader,
+    {}
+  )
+  .option(
+    '--cache-dir <dir>',
+    'Cache directory for schemas fetched from a URL',
+    'node_modules/.cache/nuxt-openapi-composables'
   )
   .option(
     '-o, --output <dir>',
     'Output directory for composables',
-    './app/composables/api'
+    DEFAULT_CONFIG.outputDir
   )
   .option(
     '-c, --cookie <name>',
-    'Cookie name for authentication',
-    'authToken'
+    'Cookie holding the auth token sent by useOpenApi',
+    DEFAULT_CONFIG.cookieName
   )
   .option(
     '-t, --types',
     'Generate TypeScript types using openapi-typescript',
-    false
+    DEFAULT_CONFIG.generateTypes
   )
   .option(
     '--types-output <path>',
     'Output path for TypeScript types',
-    './app/types/api.ts'
+    DEFAULT_CONFIG.typesOutputPath
   )
   .option(
     '--types-import <path>',
@@ -51,55 +180,153 @@ program
     '--api-prefix <path>',
     'Default API path prefix (e.g., /api/symfony). Can be overridden at runtime via NUXT_PUBLIC_API_PREFIX'
   )
+  .option(
+    '--group-by <mode>',
+    'How paths are grouped into composables (path, tag)',
+    'path'
+  )
+  .option(
+    '--base-path <pattern>',
+    'Base path preceding the resource segment, e.g. /api or /v{n} (repeatable, default: /api)',
+    collectList,
+    []
+  )
+  .option(
+    '--group-rule <rule>',
+    'Map a path glob to a resource, e.g. "/api/admin/**=admin" (repeatable, replaces the default auth rules)',
+    collectGroupRule,
+    []
+  )
+  .option(
+    '--include <filter>',
+    'Only generate matching operations: path glob, tag:<name>, method:<method>, operationId:<id> or x-<extension>[=value] (repeatable)',
+    collectFilter
+  )
+  .option(
+    '--exclude <filter>',
+    'Skip matching operations, e.g. "/api/admin/**", tag:internal or x-internal (repeatable)',
+    collectFilter
+  )
+  .option(
+    '--fail-on <severity>',
+    'Lowest schema diagnostic severity that fails generation (error, warning, never)',
+    'error'
+  )
+  .option(
+    '--naming <strategy>',
+    'Method naming strategy (path, operationId, hybrid)',
+    'path'
+  )
+  .option(
+    '--queries [target]',
+    'Also generate query composables, query key factories and mutation invalidation (async-data, vue-query)',
+    false
+  )
+  .option(
+    '--check',
+    'Verify the generated files are up to date without writing them (exits non-zero on drift)',
+    false
+  )
+  .option(
+    '--dry-run',
+    'Print the files that would be written without writing them',
+    false
+  )
+  .option(
+    '-w, --watch',
+    'Regenerate whenever the schema or a file it references changes',
+    false
+  )
   .option(
     '--base-api-path <path>',
     'Base API path (deprecated)',
-    '/api'
+    DEFAULT_CONFIG.baseApiPath
   )
   .option(
     '--use-api-import <path>',
     'Custom useApi import path (deprecated, use --types-import instead)'
   )
-  .action(async (options) => {
+  .action(async (options: GenerateOptions, command: Command) => {
     try {
-      // Resolve paths relative to current working directory
-      const schemaPath = resolve(process.cwd(), options.schema)
-      const outputDir = resolve(process.cwd(), options.output)
-      const typesOutputPath = options.typesOutput
-        ? resolve(process.cwd(), options.typesOutput)
-        : undefined
+      // Flags passed on the command line override the config file, which overrides the defaults
+      const cwd = process.cwd()
+      const fromSource = (explicit: boolean): GenerateOptions => Object.fromEntries(
+        Object.entries(options).filter(([key]) => (command.getOptionValueSource(key) !== 'default') === explicit)
+      )
+      const loaded = await loadConfigFile(cwd, options.config)
+      const config = toGeneratorConfig(mergeConfig(
+        resolveConfigPaths(toUserConfig(fromSource(false)), cwd),
+        loaded?.config,
+        resolveConfigPaths(toUserConfig(fromSource(true)), cwd)
+      ))
+      config.check = options.check
+      config.dryRun = options.dryRun
 
-      // Validate schema file exists
-      if (!existsSync(schemaPath)) {
-        consola.error(`Schema file not found at: ${schemaPath}`)
+      const { schemaPath, outputDir, typesOutputPath } = config
+      const schemaIsUrl = isSchemaUrl(schemaPath)
+
+      if (loaded) {
+        consola.info(`Using config file ${loaded.configFile}`)
+      }
+
+      if (!['error', 'warning', 'never'].includes(config.validationFailOn!)) {
+        consola.error(`Invalid fail-on value "${config.validationFailOn}", expected error, warning or never`)
+        process.exit(1)
+      }
+
+      // 'custom' needs the resolve hook, which only a config file can provide
+      const groupBy = config.grouping?.groupBy || 'path'
+      const hasResolve = typeof config.grouping?.resolve === 'function'
+      if (!['path', 'tag'].includes(groupBy) && !(groupBy === 'custom' && hasResolve)) {
+        consola.error(
+          groupBy === 'custom'
+            ? 'Group-by "custom" requires a grouping.resolve function in the config file'
+            : `Invalid group-by value "${groupBy}", expected path or tag`
+        )
         process.exit(1)
       }
 
-      // Build config
-      const config: GeneratorConfig = {
-        schemaPath,
-        outputDir,
-        cookieName: options.cookie,
-        baseApiPath: options.baseApiPath,
-        useApiImportPath: options.useApiImport,
-        generateTypes: options.types,
-        typesOutputPath,
-        typesImportPath: options.typesImport,
-        apiPrefix: options.apiPrefix
+      if (!['path', 'operationId', 'hybrid'].includes(config.naming?.strategy || 'path')) {
+        consola.error(`Invalid naming value "${config.naming?.strategy}", expected path, operationId or hybrid`)
+        process.exit(1)
+      }
+
+      if (![true, false, undefined, 'async-data', 'vue-query'].includes(config.queries)) {
+        consola.error(`Invalid queries value "${config.queries}", expected async-data or vue-query`)
+        process.exit(1)
+      }
+
+      if (options.watch && (options.check || options.dryRun)) {
+        consola.error('--watch cannot be combined with --check or --dry-run')
+        process.exit(1)
+      }
+
+      // Clients bring their own schemas
+      const clientNames = config.clients?.map(client => client.name) || []
+
+      if (options.watch && schemaIsUrl && clientNames.length === 0) {
+        consola.error('--watch requires a local schema file')
+        process.exit(1)
+      }
+
+      // Validate schema file exists
+      if (!schemaIsUrl && clientNames.length === 0 && !existsSync(schemaPath)) {
+        consola.error(`Schema file not found at: ${schemaPath}`)
+        process.exit(1)
       }
 
       // Display configuration
       consola.box({
         title: '🚀 Nuxt OpenAPI Composables Generator',
         message: [
-          `Schema: ${schemaPath}`,
-          `Output: ${outputDir}`,
+          clientNames.length > 0 ? `Clients: ${clientNames.join(', ')}` : `Schema: ${schemaPath}`,
+          clientNames.length > 0 ? null : `Output: ${outputDir}`,
           `Cookie: ${config.cookieName}`,
           `Types: ${config.generateTypes ? 'Yes' : 'No'}`,
-          config.generateTypes && typesOutputPath
+          config.generateTypes && typesOutputPath && clientNames.length === 0
             ? `Types Output: ${typesOutputPath}`
             : null,
-          config.typesImportPath
+          config.typesImportPath && clientNames.length === 0
             ? `Types Import: ${config.typesImportPath}`
             : null,
           config.apiPrefix
@@ -110,6 +337,12 @@ program
           .join('\n')
       })
 
+      // Keep regenerating on changes until the process is stopped
+      if (options.watch) {
+        await watchComposables(config)
+        return
+      }
+
       // Generate composables
       await generateComposablesWithErrorHandling(config)
     } catch (error) {
@@ -122,11 +355,25 @@ program
 program
   .command('init')
   .description('Initialize nuxt-openapi-composables in your project')
-  .action(() => {
-    consola.info('Creating default configuration...')
+  .option('--format <format>', 'Config file format (ts, mjs, json)', 'ts')
+  .option('--force', 'Overwrite an existing config file', false)
+  .action((options) => {
+    if (!['ts', 'mjs', 'json'].includes(options.format)) {
+      consola.error(`Invalid --format value "${options.format}", expected ts, mjs or json`)
+      process.exit(1)
+    }
+
+    const existing = findConfigFile(process.cwd())
+    if (existing && !options.force) {
+      consola.error(`Config file already exists at: ${existing} (use --force to overwrite)`)
+      process.exit(1)
+    }
+
+    const configFile = resolve(process.cwd(), `openapi-composables.config.${options.format}`)
+    writeFileSync(configFile, createConfigFileContent(options.format), 'utf-8')
+    consola.success(`Created ${configFile}`)
     consola.info('To generate composables, run:')
-    consola.info('  nuxt-openapi-composables generate --schema ./schema/api.json')
-    consola.success('Setup complete!')
+    consola.info('  nuxt-openapi-composables generate')
   })
 
 // Handle unknown commands
@@ -0,0 +1,84 @@
+import { join, dirname, relative } from 'pathe'
+import type { GeneratorConfig, ClientConfig } from './types'
+import { mergeConfig } from './config-loader'
+
+/**
+ * Client names become part of identifiers and file names
+ */
+const CLIENT_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/
+
+/**
+ * Import path from a directory to a TypeScript file, without extension
+ * Example: ('/app/composables/billing', '/app/types/billing.ts') -> '../../types/billing'
+ */
+function getRelativeImport(fromDir: string, filePath: string): string {
+  const importPath = relative(fromDir, filePath).replace(/\.ts$/, '')
+  return importPath.startsWith('.') ? importPath : `./${importPath}`
+}
+
+/**
+ * Resolve one client against the shared top-level options
+ */
+function resolveClientConfig(shared: Omit<GeneratorConfig, 'clients'>, client: ClientConfig): GeneratorConfig {
+  const { name, ...options } = client
+  const outputDir = client.outputDir || join(shared.outputDir, name)
+  const typesOutputPath =
+    client.typesOutputPath ||
+    (shared.typesOutputPath ? join(dirname(shared.typesOutputPath), `${name}.ts`) : undefined)
+
+  // Shared typesImportPath points at one schema's types, so each client imports its own
+  const typesImportPath =
+    client.typesImportPath ||
+    (typesOutputPath ? getRelativeImport(outputDir, typesOutputPath) : shared.typesImportPath)
+
+  const merged = mergeConfig(shared, options) as GeneratorConfig
+  return {
+    ...merged,
+    outputDir,
+    typesOutputPath,
+    typesImportPath,
+    naming: { ...merged.naming, namespace: name }
+  }
+}
+
+/**
+ * Expand `clients` into one generator config per client
+ * Returns the config itself when it has no clients
+ */
+export function resolveClientConfigs(config: GeneratorConfig): GeneratorConfig[] {
+  if (!config.clients?.length) return [config]
+
+  const { clients, ...shared } = config
+  const names = new Set<string>()
+
+  for (const client of clients) {
+    if (!client.name || !CLIENT_NAME.test(client.name)) {
+      throw new Error(`Invalid client name "${client.name}", expected letters, digits, "-" or "_"`)
+    }
+    if (names.has(client.name.toLowerCase())) {
+      throw new Error(`Duplicate client name "${client.name}"`)
+    }
+    if (!client.schemaPath) {
+      throw new Error(`Client "${client.name}" has no schemaPath`)
+    }
+    names.add(client.name.toLowerCase())
+  }
+
+  const resolved = clients.map(client => resolveClientConfig(shared, client))
+
+  // Clients sharing a directory would remove each other's files as stale
+  const outputs = new Map<string, string>()
+  resolved.forEach((client, index) => {
+    const paths = [client.outputDir, client.generateTypes ? client.typesOutputPath : undefined]
+    for (const path of paths) {
+      if (!path) continue
+      const owner = outputs.get(path)
+      if (owner) {
+        throw new Error(`Clients "${owner}" and "${clients[index].name}" both write to ${path}`)
+      }
+      outputs.set(path, clients[index].name)
+    }
+  })
+
+  return resolved
+}
@@ -0,0 +1,181 @@
+import { readFileSync, existsSync } from 'node:fs'
+import { resolve, dirname, extname } from 'pathe'
+import { createJiti } from 'jiti'
+import type { GeneratorConfig, UserConfig, ClientConfig } from './types'
+import { isSchemaUrl } from './schema-fetcher'
+
+/**
+ * Config file names looked up in the project root, in order of preference
+ */
+export const CONFIG_FILE_NAMES = [
+  'openapi-composables.config.ts',
+  'openapi-composables.config.mjs',
+  'openapi-composables.config.json'
+]
+
+/**
+ * Defaults shared by the CLI and the Nuxt module, applied below every other source
+ */
+export const DEFAULT_CONFIG = {
+  schemaPath: './schema/api.json',
+  outputDir: './app/composables/api',
+  cookieName: 'authToken',
+  baseApiPath: '/api',
+  generateTypes: false,
+  typesOutputPath: './app/types/api.ts'
+} satisfies UserConfig
+
+/**
+ * A config file and the options it exports
+ */
+export interface LoadedConfig {
+  configFile: string
+  /** Options with paths resolved against the config file's directory */
+  config: UserConfig
+}
+
+/**
+ * Options objects merged key by key instead of replaced
+ */
+const NESTED_KEYS = new Set<keyof UserConfig>(['schemaHeaders', 'naming', 'grouping', 'retry'])
+
+/**
+ * Type helper for `openapi-composables.config.ts`
+ *
+ * @example
+ * export default defineConfig({
+ *   schemaPath: './schema/openapi.yaml',
+ *   generateTypes: true
+ * })
+ */
+export function defineConfig(config: UserConfig): UserConfig {
+  return config
+}
+
+/**
+ * Find the config file in a directory
+ */
+export function findConfigFile(rootDir: string): string | undefined {
+  return CONFIG_FILE_NAMES.map(name => resolve(rootDir, name)).find(file => existsSync(file))
+}
+
+/**
+ * Resolve the file paths of a config against a directory (schema URLs are kept as-is)
+ */
+export function resolveConfigPaths<T extends UserConfig | ClientConfig>(config: T, rootDir: string): T {
+  const resolved = { ...config }
+  if (resolved.schemaPath && !isSchemaUrl(resolved.schemaPath)) {
+    resolved.schemaPath = resolve(rootDir, resolved.schemaPath)
+  }
+  if (resolved.schemaCacheDir) resolved.schemaCacheDir = resolve(rootDir, resolved.schemaCacheDir)
+  if (resolved.outputDir) resolved.outputDir = resolve(rootDir, resolved.outputDir)
+  if (resolved.typesOutputPath) resolved.typesOutputPath = resolve(rootDir, resolved.typesOutputPath)
+  if ('clients' in resolved && resolved.clients) {
+    resolved.clients = resolved.clients.map(client => resolveConfigPaths(client, rootDir))
+  }
+  return resolved
+}
+
+/**
+ * Load a config file
+ * Without `configFile`, the file is looked up in `rootDir`; returns undefined when there is none
+ */
+export async function loadConfigFile(
+  rootDir: string,
+  configFile?: string
+): Promise<LoadedConfig | undefined> {
+  const file = configFile ? resolve(rootDir, configFile) : findConfigFile(rootDir)
+  if (!file) return undefined
+  if (!existsSync(file)) {
+    throw new Error(`Config file not found at: ${file}`)
+  }
+
+  let config: unknown
+  try {
+    if (extname(file) === '.json') {
+      config = JSON.parse(readFileSync(file, 'utf-8'))
+    } else {
+      // Not cached, so watch mode and the Nuxt dev server pick up edits
+      const jiti = createJiti(import.meta.url, { moduleCache: false })
+      config = await jiti.import(file, { default: true })
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to load config file ${file}: ${reason}`)
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Config file ${file} must export an object`)
+  }
+
+  return { configFile: file, config: resolveConfigPaths(config as UserConfig, dirname(file)) }
+}
+
+/**
+ * Merge config sources; later sources take precedence
+ * Undefined values don't override, and `schemaHeaders`, `naming` and `grouping` are merged key by key
+ */
+export function mergeConfig(...sources: Array<UserConfig | undefined>): UserConfig {
+  const merged: Record<string, unknown> = {}
+
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source || {})) {
+      if (value === undefined) continue
+
+      const previous = merged[key]
+      merged[key] =
+        NESTED_KEYS.has(key as keyof UserConfig) && previous && typeof previous === 'object'
+          ? { ...previous, ...withoutUndefined(value as Record<string, unknown>) }
+          : value
+    }
+  }
+
+  return merged as UserConfig
+}
+
+/**
+ * Drop undefined values so they don't override merged keys
+ */
+function withoutUndefined(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined))
+}
+
+/**
+ * Check that a merged config has everything generation needs
+ */
+export function toGeneratorConfig(config: UserConfig): GeneratorConfig {
+  if (!config.schemaPath || !config.outputDir) {
+    throw new Error('Config must set schemaPath and outputDir')
+  }
+  return config as GeneratorConfig
+}
+
+/**
+ * Content of a new config file for `init`
+ */
+export function createConfigFileContent(format: 'ts' | 'mjs' | 'json'): string {
+  const options = {
+    schemaPath: DEFAULT_CONFIG.schemaPath,
+    outputDir: DEFAULT_CONFIG.outputDir,
+    generateTypes: true,
+    typesOutputPath: DEFAULT_CONFIG.typesOutputPath,
+    typesImportPath: '~/types/api'
+  }
+
+  if (format === 'json') {
+    return JSON.stringify(options, null, 2) + '\n'
+  }
+
+  const body = Object.entries(options)
+    .map(([key, value]) => `  ${key}: ${typeof value === 'string' ? `'${value}'` : value}`)
+    .join(',\n')
+
+  return [
+    "import { defineConfig } from '@habityzer/nuxt-openapi-composables'",
+    '',
+    'export default defineConfig({',
+    body,
+    '})',
+    ''
+  ].join('\n')
+}
@@ -0,0 +1,224 @@
+import { readFileSync, existsSync } from 'node:fs'
+
+/**
+ * One line of a line-based diff
+ */
+interface DiffLine {
+  type: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+/**
+ * Difference between a rendered file and the file on disk
+ */
+export interface FileDrift {
+  filePath: string
+  /** 'missing': not on disk yet, 'changed': content differs, 'stale': would be removed */
+  status: 'missing' | 'changed' | 'stale'
+  /** Unified diff from the file on disk to the rendered content */
+  diff: string
+}
+
+/**
+ * Above this edit distance files are shown as fully replaced instead of diffed line by line
+ */
+const MAX_EDIT_DISTANCE = 4000
+
+/**
+ * Split content into lines, ignoring the final newline
+ */
+function splitLines(content: string): string[] {
+  if (content === '') return []
+  const lines = content.split(/\r?\n/)
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm)
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common prefix and suffix don't need the full algorithm
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const prefix = a.slice(0, start).map((text): DiffLine => ({ type: 'equal', text }))
+  const suffix = a.slice(endA).map((text): DiffLine => ({ type: 'equal', text }))
+  const oldLines = a.slice(start, endA)
+  const newLines = b.slice(start, endB)
+  const n = oldLines.length
+  const m = newLines.length
+
+  const replaceAll = (): DiffLine[] => [
+    ...oldLines.map((text): DiffLine => ({ type: 'delete', text })),
+    ...newLines.map((text): DiffLine => ({ type: 'insert', text }))
+  ]
+
+  if (n === 0 || m === 0) return [...prefix, ...replaceAll(), ...suffix]
+
+  // v[offset + k] is the furthest x reached on diagonal k; keep a snapshot of the diagonals
+  // -d..d per step for backtracking, so the trace grows with the distance reached, not the cap
+  const maxDistance = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = maxDistance + 1
+  const v = new Int32Array(2 * maxDistance + 3)
+  v[offset + 1] = 0
+  const trace: Int32Array[] = []
+  let distance = -1
+
+  for (let d = 0; d <= maxDistance && distance === -1; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        distance = d
+        break
+      }
+    }
+  }
+
+  if (distance === -1) return [...prefix, ...replaceAll(), ...suffix]
+
+  const edits: DiffLine[] = []
+  let x = n
+  let y = m
+  for (let d = distance; d > 0; d--) {
+    // trace[d] starts at diagonal -d
+    const snapshot = trace[d]
+    const k = x - y
+    const prevK =
+      k === -d || (k !== d && snapshot[d + k - 1] < snapshot[d + k + 1]) ? k + 1 : k - 1
+    const prevX = snapshot[d + prevK]
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'equal', text: oldLines[--x] })
+      y--
+    }
+    if (x === prevX) {
+      edits.push({ type: 'insert', text: newLines[--y] })
+    } else {
+      edits.push({ type: 'delete', text: oldLines[--x] })
+    }
+  }
+  while (x > 0 && y > 0) {
+    edits.push({ type: 'equal', text: oldLines[--x] })
+    y--
+  }
+
+  return [...prefix, ...edits.reverse(), ...suffix]
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ * Returns an empty string when the contents are equal
+ */
+export function createUnifiedDiff(
+  oldContent: string,
+  newContent: string,
+  options: { oldLabel?: string; newLabel?: string; context?: number } = {}
+): string {
+  if (oldContent === newContent) return ''
+
+  const context = options.context ?? 3
+  const lines = diffLines(splitLines(oldContent), splitLines(newContent))
+  const changes = lines
+    .map((line, index) => (line.type === 'equal' ? -1 : index))
+    .filter(index => index !== -1)
+
+  // Only the final newline differs
+  if (changes.length === 0) return ''
+
+  // Group changes whose context overlaps into hunks
+  const ranges: Array<[number, number]> = []
+  for (const index of changes) {
+    const start = Math.max(0, index - context)
+    const end = Math.min(lines.length, index + context + 1)
+    const last = ranges[ranges.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = end
+    } else {
+      ranges.push([start, end])
+    }
+  }
+
+  // Line numbers (1-based) in the old and new file at the start of each line
+  const oldNumbers: number[] = []
+  const newNumbers: number[] = []
+  let oldLine = 1
+  let newLine = 1
+  for (const line of lines) {
+    oldNumbers.push(oldLine)
+    newNumbers.push(newLine)
+    if (line.type !== 'insert') oldLine++
+    if (line.type !== 'delete') newLine++
+  }
+
+  const output = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`]
+  for (const [start, end] of ranges) {
+    const hunk = lines.slice(start, end)
+    const oldCount = hunk.filter(line => line.type !== 'insert').length
+    const newCount = hunk.filter(line => line.type !== 'delete').length
+    // An empty side is reported at the line before the hunk
+    const oldStart = oldCount === 0 ? oldNumbers[start] - 1 : oldNumbers[start]
+    const newStart = newCount === 0 ? newNumbers[start] - 1 : newNumbers[start]
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+    for (const line of hunk) {
+      const marker = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' '
+      output.push(marker + line.text)
+    }
+  }
+
+  return output.join('\n') + '\n'
+}
+
+/**
+ * Compare rendered files with the files on disk
+ * `files` maps absolute paths to their rendered content; `staleFiles` are paths a write would remove
+ */
+export function detectDrift(files: Record<string, string>, staleFiles: string[] = []): FileDrift[] {
+  const drift: FileDrift[] = []
+
+  for (const [filePath, content] of Object.entries(files)) {
+    const exists = existsSync(filePath)
+    const current = exists ? readFileSync(filePath, 'utf-8') : ''
+    if (exists && current === content) continue
+
+    drift.push({
+      filePath,
+      status: exists ? 'changed' : 'missing',
+      diff: createUnifiedDiff(current, content, {
+        oldLabel: exists ? filePath : '/dev/null',
+        newLabel: filePath
+      })
+    })
+  }
+
+  for (const filePath of staleFiles) {
+    if (!existsSync(filePath)) continue
+    drift.push({
+      filePath,
+      status: 'stale',
+      diff: createUnifiedDiff(readFileSync(filePath, 'utf-8'), '', {
+        oldLabel: filePath,
+        newLabel: '/dev/null'
+      })
+    })
+  }
+
+  return drift
+}
@@ -0,0 +1,99 @@
+import type { OpenAPISchema, Operation, Parameter, PathItem } from './types'
+import { resolveParameter } from './validator'
+
+/**
+ * Merge path item and operation parameters, operation-level definitions win
+ */
+function getOperationParameters(
+  schema: OpenAPISchema,
+  pathItem: PathItem,
+  operation: Operation
+): Parameter[] {
+  const parameters = new Map<string, Parameter>()
+
+  for (const raw of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const parameter = resolveParameter(schema, raw)
+    if (parameter?.name && parameter.in) {
+      parameters.set(`${parameter.in}:${parameter.name}`, parameter)
+    }
+  }
+
+  return Array.from(parameters.values())
+}
+
+/**
+ * Make free text safe to embed in a block comment
+ */
+function sanitize(text: string): string[] {
+  return text
+    .replace(/\*\//g, '*\\/')
+    .trim()
+    .split(/\r?\n/)
+    .map(line => line.trimEnd())
+}
+
+/**
+ * Format a `@param` tag, optional parameters use the JSDoc `[name]` syntax
+ */
+function formatParam(name: string, required: boolean | undefined, description?: string): string {
+  const tagName = required ? name : `[${name}]`
+  const text = description ? sanitize(description).join(' ') : ''
+  return text ? `@param ${tagName} - ${text}` : `@param ${tagName}`
+}
+
+/**
+ * Generate the JSDoc block for a generated API method from its operation metadata
+ * Includes summary, description, the endpoint, path/query/body params, response codes and @deprecated
+ */
+export function generateMethodDoc(
+  path: string,
+  method: string,
+  schema: OpenAPISchema,
+  indent = '  '
+): string {
+  const pathItem = schema.paths[path] || {}
+  const operation = pathItem[method as keyof PathItem] as Operation | undefined
+  if (!operation) return ''
+
+  const lines: string[] = []
+  const addSection = (section: string[]) => {
+    if (section.length === 0) return
+    if (lines.length > 0) lines.push('')
+    lines.push(...section)
+  }
+
+  if (operation.summary) addSection(sanitize(operation.summary))
+  if (operation.description && operation.description !== operation.summary) {
+    addSection(sanitize(operation.description))
+  }
+  addSection([`\`${method.toUpperCase()} ${path}\``])
+
+  // Only path and query parameters can be passed to generated methods
+  const parameters = getOperationParameters(schema, pathItem, operation)
+  const tags = [
+    ...parameters
+      .filter(parameter => parameter.in === 'path')
+      .map(parameter => formatParam(`params.${parameter.name}`, true, parameter.description)),
+    ...parameters
+      .filter(parameter => parameter.in === 'query')
+      .map(parameter => formatParam(`query.${parameter.name}`, parameter.required, parameter.description))
+  ]
+
+  if (operation.requestBody) {
+    tags.push(formatParam('body', operation.requestBody.required, operation.requestBody.description))
+  }
+
+  for (const [status, response] of Object.entries(operation.responses || {})) {
+    const description = response?.description ? sanitize(response.description).join(' ') : ''
+    tags.push(description ? `@response ${status} - ${description}` : `@response ${status}`)
+  }
+
+  if (operation.deprecated) {
+    tags.push('@deprecated')
+  }
+
+  addSection(tags)
+
+  const body = lines.map(line => (line ? `${indent} * ${line}` : `${indent} *`)).join('\n')
+  return `${indent}/**\n${body}\n${indent} */`
+}
@@ -0,0 +1,151 @@
+import type { OpenAPISchema, PathItem, Operation, OperationFilter, ExtensionPredicate } from './types'
+import { matchGlob } from './glob'
+import { getHttpMethods } from './resource-parser'
+
+/**
+ * Read an `x-` extension from the operation, falling back to its path item
+ */
+export function getExtension(pathItem: PathItem, operation: Operation, name: string): unknown {
+  const operationValue = (operation as Record<string, unknown>)[name]
+  return operationValue !== undefined ? operationValue : (pathItem as Record<string, unknown>)[name]
+}
+
+/**
+ * Evaluate each criterion the filter sets for one operation
+ */
+function evaluateCriteria(
+  filter: OperationFilter,
+  path: string,
+  method: string,
+  pathItem: PathItem,
+  operation: Operation
+): boolean[] {
+  const results: boolean[] = []
+
+  if (filter.paths?.length) {
+    results.push(filter.paths.some(glob => matchGlob(glob, path)))
+  }
+  if (filter.tags?.length) {
+    results.push((operation.tags || []).some(tag => filter.tags!.includes(tag)))
+  }
+  if (filter.methods?.length) {
+    results.push(filter.methods.some(candidate => candidate.toLowerCase() === method))
+  }
+  if (filter.operationIds?.length) {
+    results.push(!!operation.operationId && filter.operationIds.includes(operation.operationId))
+  }
+  for (const [name, expected] of Object.entries(filter.extensions || {})) {
+    const value = getExtension(pathItem, operation, name)
+    results.push(typeof expected === 'function' ? !!expected(value) : value === expected)
+  }
+
+  return results
+}
+
+/**
+ * Check whether an operation passes the include/exclude filters
+ */
+export function matchesOperationFilters(
+  path: string,
+  method: string,
+  pathItem: PathItem,
+  filters: { include?: OperationFilter; exclude?: OperationFilter }
+): boolean {
+  const operation = pathItem[method as keyof PathItem] as Operation | undefined
+  if (!operation) return false
+
+  if (filters.include) {
+    const results = evaluateCriteria(filters.include, path, method, pathItem, operation)
+    if (!results.every(Boolean)) return false
+  }
+
+  if (filters.exclude) {
+    const results = evaluateCriteria(filters.exclude, path, method, pathItem, operation)
+    if (results.some(Boolean)) return false
+  }
+
+  return true
+}
+
+/**
+ * Remove operations that don't pass the include/exclude filters
+ * Path items left without operations are dropped; the schema itself is not mutated
+ */
+export function filterSchema(
+  schema: OpenAPISchema,
+  filters: { include?: OperationFilter; exclude?: OperationFilter }
+): OpenAPISchema {
+  if (!filters.include && !filters.exclude) return schema
+
+  const paths: Record<string, PathItem> = {}
+
+  for (const [path, pathItem] of Object.entries(schema.paths || {})) {
+    const methods = getHttpMethods(pathItem)
+    const kept = methods.filter(method => matchesOperationFilters(path, method, pathItem, filters))
+    if (kept.length === 0) continue
+
+    const filteredItem: PathItem = { ...pathItem }
+    for (const method of methods) {
+      if (!kept.includes(method)) {
+        delete filteredItem[method as keyof PathItem]
+      }
+    }
+    paths[path] = filteredItem
+  }
+
+  return { ...schema, paths }
+}
+
+/**
+ * Add a CLI filter expression to a filter
+ * Examples:
+ * - '/api/admin/**' -> path glob
+ * - 'tag:internal', 'method:delete', 'operationId:getTasks'
+ * - 'x-internal' -> extension is set and not false
+ * - 'x-visibility=public', 'x-beta=true' -> extension equals the (JSON-parsed) value
+ */
+export function addFilterExpression(filter: OperationFilter, expression: string): OperationFilter {
+  const value = expression.trim()
+  const prefixMatch = value.match(/^(tag|method|operationId):(.+)$/)
+
+  if (prefixMatch) {
+    const [, kind, target] = prefixMatch
+    const key = kind === 'tag' ? 'tags' : kind === 'method' ? 'methods' : 'operationIds'
+    return { ...filter, [key]: [...(filter[key] || []), target.trim()] }
+  }
+
+  if (value.startsWith('x-')) {
+    const separatorIndex = value.indexOf('=')
+    if (separatorIndex === -1) {
+      return {
+        ...filter,
+        extensions: {
+          ...filter.extensions,
+          [value]: (extension: unknown) => extension !== undefined && extension !== false
+        }
+      }
+    }
+
+    const rawValue = value.slice(separatorIndex + 1).trim()
+    let expected: ExtensionPredicate = rawValue
+    try {
+      const parsed: unknown = JSON.parse(rawValue)
+      // Objects and arrays never equal an extension value, keep them as plain strings
+      if (parsed === null || typeof parsed !== 'object') expected = parsed as ExtensionPredicate
+    } catch {
+      // Plain strings don't need quoting
+    }
+    return {
+      ...filter,
+      extensions: { ...filter.extensions, [value.slice(0, separatorIndex).trim()]: expected }
+    }
+  }
+
+  if (!value.startsWith('/') && !value.startsWith('*')) {
+    throw new Error(
+      `Invalid filter "${expression}", expected a path glob, tag:<name>, method:<method>, operationId:<id> or x-<extension>[=value]`
+    )
+  }
+
+  return { ...filter, paths: [...(filter.paths || []), value] }
+}
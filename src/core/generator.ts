@@ -2,147 +2,142 @@ import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs'
 import { join, dirname } from 'node:path'
 import { consola } from 'consola'
 import pc from 'picocolors'
-import type { GeneratorConfig, OpenAPISchema } from './types'
-import { toPascalCase } from './naming'
-import { extractResources } from './resource-parser'
-import { generateComposableFromResources, getGeneratedMethods } from './method-generator'
+import type { GeneratorConfig, OpenAPISchema, DiagnosticSeverity, RenderedComposable } from './types'
+import { loadSchema } from './schema-loader'
+import { renderComposables } from './renderer'
+import { hashContent } from './schema-fetcher'
+import {
+  createManifest,
+  readManifest,
+  writeManifest,
+  getRemovableStaleFiles,
+  removeStaleFiles
+} from './manifest'
+import { detectDrift } from './diff'
+import type { FileDrift } from './diff'
+import { validateOpenApiSchema, meetsSeverityThreshold, formatDiagnostic } from './validator'
+import { getOpenApiComposableName, getVueQueryComposableName } from './naming'
+import { resolveClientConfigs } from './clients'
 
 /**
- * Generate TypeScript types using openapi-typescript
+ * Validate OpenAPI schema
+ * Logs every diagnostic and fails when any reaches the configured severity threshold
  */
-async function generateTypes(
-  schemaPath: string,
-  outputPath: string
-): Promise<void> {
-  try {
-    const openapiTS = await import('openapi-typescript')
-    
-    // Read and parse the schema first to handle OpenAPI 3.1
-    const schemaContent = readFileSync(schemaPath, 'utf-8')
-    const schema = JSON.parse(schemaContent)
-    
-    // Generate types directly from the parsed schema object
-    const output = await openapiTS.default(schema, {
-      defaultNonNullable: false
-    })
+function validateSchema(
+  schema: OpenAPISchema,
+  failOn: DiagnosticSeverity | 'never' = 'error'
+): void {
+  const diagnostics = validateOpenApiSchema(schema)
 
-    // Ensure output directory exists
-    const outputDir = dirname(outputPath)
-    if (!existsSync(outputDir)) {
-      mkdirSync(outputDir, { recursive: true })
-    }
+  diagnostics.forEach((diagnostic) => {
+    const log = diagnostic.severity === 'error' ? consola.error : consola.warn
+    log(formatDiagnostic(diagnostic))
+  })
 
-    // Convert output to string if it's not already
-    const outputString = typeof output === 'string' ? output : String(output)
-    writeFileSync(outputPath, outputString, 'utf-8')
-    consola.success(`Generated TypeScript types at ${outputPath}`)
-  } catch (error) {
-    consola.error('Failed to generate TypeScript types:', error)
-    throw error
+  const failing = diagnostics.filter(diagnostic =>
+    meetsSeverityThreshold(diagnostic.severity, failOn)
+  )
+  if (failing.length > 0) {
+    throw new Error(
+      `Invalid OpenAPI schema: ${failing.length} problem(s) at or above "${failOn}" severity`
+    )
   }
+
+  consola.info(`OpenAPI version: ${schema.openapi}`)
+  consola.info(`API title: ${schema.info?.title || 'Unknown'}`)
+  consola.info(`API version: ${schema.info?.version || 'Unknown'}`)
 }
 
 /**
- * Validate OpenAPI schema
+ * Print check mode results and fail when generated files are out of date
  */
-function validateSchema(schema: OpenAPISchema): void {
-  if (!schema.openapi) {
-    throw new Error('Invalid OpenAPI schema: missing "openapi" field')
+function reportDrift(drift: FileDrift[]): void {
+  if (drift.length === 0) {
+    consola.success('Generated files are up to date')
+    return
   }
 
-  if (!schema.paths || Object.keys(schema.paths).length === 0) {
-    throw new Error('Invalid OpenAPI schema: no paths defined')
+  for (const { filePath, status, diff } of drift) {
+    consola.warn(`${status === 'missing' ? 'Missing' : status === 'stale' ? 'Stale' : 'Changed'}: ${filePath}`)
+
+    const lines = diff ? diff.trimEnd().split('\n') : ['(only line endings or the final newline differ)']
+    for (const line of lines) {
+      if (line.startsWith('+++') || line.startsWith('---')) console.log(pc.bold(line))
+      else if (line.startsWith('+')) console.log(pc.green(line))
+      else if (line.startsWith('-')) console.log(pc.red(line))
+      else if (line.startsWith('@@')) console.log(pc.cyan(line))
+      else console.log(line)
+    }
   }
 
-  consola.info(`OpenAPI version: ${schema.openapi}`)
-  consola.info(`API title: ${schema.info?.title || 'Unknown'}`)
-  consola.info(`API version: ${schema.info?.version || 'Unknown'}`)
+  throw new Error(
+    `Generated files are out of date: ${drift.length} file(s) differ from the schema. Run generate to update them.`
+  )
 }
 
 /**
- * Copy useOpenApi.ts to output directory with correct types path and optional default prefix
- */
-function copyUseOpenApi(
-  outputDir: string,
-  typesImportPath?: string,
-  defaultApiPrefix?: string
-): void {
-  try {
-    // Try to read from dist/templates (when running from built package)
-    // or from templates/ (when running from source during tests)
-    let sourceFile = join(__dirname, '../templates/useOpenApi.ts')
-    if (!existsSync(sourceFile)) {
-      sourceFile = join(__dirname, '../../templates/useOpenApi.ts')
-    }
-    
-    let content = readFileSync(sourceFile, 'utf-8')
-    
-    // Replace the types import path if provided
-    if (typesImportPath) {
-      content = content.replace(
-        /import type { paths } from '~\/types\/api'/,
-        `import type { paths } from '${typesImportPath}'`
-      )
-    }
-    
-    // Replace the default API prefix if provided
-    if (defaultApiPrefix !== undefined) {
-      content = content.replace(
-        /return config\.public\.apiPrefix \|\| ''/,
-        `return config.public.apiPrefix || '${defaultApiPrefix}'`
-      )
-    }
-    
-    // Add configuration comment at the top
-    const configComment = `/**
- * API Configuration:
- *
- * To configure the API prefix in your Nuxt project, add this to your nuxt.config.ts:
- *
- * export default defineNuxtConfig({
- *   runtimeConfig: {
- *     public: {
- *       apiPrefix: '/api/symfony' // or your custom prefix
- *     }
- *   }
- * })
- *
- * Or use environment variable: NUXT_PUBLIC_API_PREFIX=/api/symfony
- *
- * If not configured, defaults to: '${defaultApiPrefix || ''}'
- *
- * Error Handling:
- * All API errors are thrown and can be caught by your application.
- * Errors include statusCode and statusMessage properties.
- *
- * Example:
- * try {
- *   await getUserWords()
- * } catch (error) {
- *   if (error.statusCode === 401) {
- *     // Handle authentication error (redirect to login, etc.)
- *   }
- * }
+ * Print the files a run would write or remove, without touching the disk
  */
+function reportDryRun(files: Record<string, string>, staleFiles: string[]): void {
+  consola.info('Dry run, no files were written:')
 
-`
-    content = configComment + content
-    
-    // Write to output directory
-    const outputPath = join(outputDir, 'useOpenApi.ts')
-    writeFileSync(outputPath, content, 'utf-8')
-    consola.success('useOpenApi.ts')
-  } catch (error) {
-    consola.warn('✗ Failed to copy useOpenApi.ts:', error)
+  for (const [filePath, content] of Object.entries(files)) {
+    const exists = existsSync(filePath)
+    const status = !exists ? 'create' : readFileSync(filePath, 'utf-8') === content ? 'unchanged' : 'update'
+    const lineCount = content.split('\n').length - (content.endsWith('\n') ? 1 : 0)
+    console.log(`  ${pc.dim(status.padEnd(9))} ${filePath} ${pc.dim(`(${lineCount} lines)`)}`)
   }
+
+  for (const filePath of staleFiles) {
+    console.log(`  ${pc.dim('remove'.padEnd(9))} ${filePath}`)
+  }
+}
+
+/**
+ * Print generated composables and their methods as a tree
+ */
+function printComposableTree(composables: RenderedComposable[]): void {
+  composables.forEach(({ fileName, methods }, fileIndex) => {
+    const isLast = fileIndex === composables.length - 1
+    const filePrefix = isLast ? '└──' : '├──'
+    
+    // Use console.log with picocolors for cyan file names
+    console.log(`${filePrefix} ${pc.cyan(fileName)}`)
+    
+    methods.forEach(({ name, queryName, mutationName }, methodIndex) => {
+      const isLastMethod = methodIndex === methods.length - 1
+      const methodPrefix = isLast ? '    ' : '│   '
+      const methodMarker = isLastMethod ? '└──' : '├──'
+      const hook = queryName || mutationName
+      console.log(`${methodPrefix}${methodMarker} ${name}${hook ? pc.dim(` (${hook})`) : ''}`)
+    })
+  })
 }
 
 /**
  * Main function to generate composables from OpenAPI schema
+ * With `clients`, each client is generated in turn from its own schema
  */
 export async function generateComposables(
   config: GeneratorConfig
 ): Promise<void> {
+  if (config.clients?.length) {
+    let clients: GeneratorConfig[]
+    try {
+      clients = resolveClientConfigs(config)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      consola.error('Error generating composables:', errorMessage)
+      throw error
+    }
+
+    for (const client of clients) {
+      consola.info(pc.bold(`Client ${client.naming!.namespace}`))
+      await generateComposables(client)
+    }
+    return
+  }
+
   try {
     consola.start('Starting composables generation...')
 
@@ -155,33 +150,53 @@ export async function generateComposables(
       throw new Error('Output directory is required')
     }
 
-    // Read the OpenAPI schema
+    // Read the OpenAPI schema (JSON or YAML, external file refs bundled)
     consola.info(`Reading OpenAPI schema from: ${config.schemaPath}`)
-
-    if (!existsSync(config.schemaPath)) {
-      throw new Error(`OpenAPI schema file not found at ${config.schemaPath}`)
-    }
-
-    const schemaContent = readFileSync(config.schemaPath, 'utf-8')
-    const schema: OpenAPISchema = JSON.parse(schemaContent)
+    const schema = await loadSchema(config.schemaPath, {
+      headers: config.schemaHeaders,
+      cacheDir: config.schemaCacheDir
+    })
 
     // Validate schema
-    validateSchema(schema)
+    validateSchema(schema, config.validationFailOn)
 
-    // Generate TypeScript types if requested
+    // Render everything in memory first, then write, check or report
     if (config.generateTypes && config.typesOutputPath) {
       consola.start('Generating TypeScript types...')
-      await generateTypes(config.schemaPath, config.typesOutputPath)
+    }
+    const result = await renderComposables(schema, config)
+    result.warnings.forEach(warning => consola.warn(warning))
+
+    if (result.filteredOperations > 0) {
+      consola.info(`Filtered out ${result.filteredOperations} operation(s) with include/exclude filters`)
+    }
+    consola.info(`Found ${result.resources.length} resources: ${result.resources.join(', ')}`)
+
+    // Files in the output directory, relative to it (useOpenApi.ts, useOpenApiVueQuery.ts and the composables)
+    const openApiFileName = `${getOpenApiComposableName(config.naming)}.ts`
+    const vueQueryFileName = `${getVueQueryComposableName(config.naming)}.ts`
+    const outputFiles: Record<string, string> = {}
+    for (const fileName of [openApiFileName, vueQueryFileName, ...result.composables.map(({ fileName }) => fileName)]) {
+      const content = result.files[join(config.outputDir, fileName)]
+      if (content !== undefined) outputFiles[fileName] = content
     }
 
-    // Extract unique resources
-    const resources = extractResources(schema)
+    // Files generated by the previous run, used to clean up stale composables
+    // (useOpenApi.ts is always part of the output, even when rendering it failed this run)
+    const previousManifest = readManifest(config.outputDir)
+    const currentFiles = [...Object.keys(outputFiles), openApiFileName]
+    const staleFiles = getRemovableStaleFiles(config.outputDir, previousManifest, currentFiles)
 
-    if (resources.size === 0) {
-      throw new Error('No API resources found in the schema')
+    if (config.check) {
+      reportDrift(detectDrift(result.files, staleFiles.map(fileName => join(config.outputDir, fileName))))
+      return
     }
 
-    consola.info(`Found ${resources.size} resources: ${Array.from(resources).join(', ')}`)
+    if (config.dryRun) {
+      reportDryRun(result.files, staleFiles.map(fileName => join(config.outputDir, fileName)))
+      printComposableTree(result.composables)
+      return
+    }
 
     // Create composables directory if it doesn't exist
     if (!existsSync(config.outputDir)) {
@@ -189,65 +204,39 @@ export async function generateComposables(
       consola.info(`Created output directory: ${config.outputDir}`)
     }
 
-    // Copy useOpenApi.ts to output directory
-    copyUseOpenApi(config.outputDir, config.typesImportPath, config.apiPrefix)
-
-    // Group resources by their normalized filename to avoid duplicates
-    const resourcesByFilename = new Map<string, string[]>()
-    for (const resource of resources) {
-      const fileName = `use${toPascalCase(resource)}Api.ts`
-      const existingResources = resourcesByFilename.get(fileName) || []
-      existingResources.push(resource)
-      resourcesByFilename.set(fileName, existingResources)
-    }
+    // Unchanged files are left alone so watchers (Nuxt HMR, --watch) only see real changes
+    let updatedCount = 0
+    for (const [filePath, content] of Object.entries(result.files)) {
+      if (existsSync(filePath) && readFileSync(filePath, 'utf-8') === content) continue
 
-    // Generate all composables
-    const generatedFiles: Array<{ fileName: string; methods: string[] }> = []
-    
-    for (const [fileName, resourceList] of resourcesByFilename) {
-      const composable = generateComposableFromResources(
-        resourceList,
-        schema,
-        config.useApiImportPath
-      )
-
-      if (composable) {
-        const filePath = join(config.outputDir, fileName)
-        writeFileSync(filePath, composable, { flag: 'w' }) // Force overwrite
-        
-        // Collect all methods from all resources that map to this file
-        const allMethods = new Set<string>()
-        for (const resource of resourceList) {
-          const methods = getGeneratedMethods(resource, schema)
-          methods.forEach((method) => {
-            allMethods.add(method.name)
-          })
-        }
-        
-        generatedFiles.push({
-          fileName,
-          methods: Array.from(allMethods)
-        })
+      const fileDir = dirname(filePath)
+      if (!existsSync(fileDir)) {
+        mkdirSync(fileDir, { recursive: true })
       }
+      writeFileSync(filePath, content, { flag: 'w' }) // Force overwrite
+      updatedCount++
+    }
+    if (outputFiles[openApiFileName] !== undefined) {
+      consola.success(openApiFileName)
+    }
+    if (config.generateTypes && config.typesOutputPath) {
+      consola.success(`Generated TypeScript types at ${config.typesOutputPath}`)
     }
 
+    // Remove composables the previous run generated that are no longer produced
+    const removedFiles = removeStaleFiles(config.outputDir, previousManifest, currentFiles)
+    removedFiles.forEach(fileName => consola.info(`Removed stale ${fileName}`))
+
+    writeManifest(
+      config.outputDir,
+      createManifest(outputFiles, hashContent(JSON.stringify(schema)))
+    )
+
     // Display results with tree-style formatting
-    consola.success(`Generated ${generatedFiles.length} composables:\n`)
-    
-    generatedFiles.forEach(({ fileName, methods }, fileIndex) => {
-      const isLast = fileIndex === generatedFiles.length - 1
-      const filePrefix = isLast ? '└──' : '├──'
-      
-      // Use console.log with picocolors for cyan file names
-      console.log(`${filePrefix} ${pc.cyan(fileName)}`)
-      
-      methods.forEach((method, methodIndex) => {
-        const isLastMethod = methodIndex === methods.length - 1
-        const methodPrefix = isLast ? '    ' : '│   '
-        const methodMarker = isLastMethod ? '└──' : '├──'
-        console.log(`${methodPrefix}${methodMarker} ${method}`)
-      })
-    })
+    consola.success(
+      `Generated ${result.composables.length} composables (${updatedCount} file(s) updated):\n`
+    )
+    printComposableTree(result.composables)
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error)
     consola.error('Error generating composables:', errorMessage)
@@ -0,0 +1,33 @@
+/**
+ * Escape a string for use inside a RegExp
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Compile a path glob into a RegExp
+ * - '**' matches any number of characters, including '/'
+ * - '*' matches within a single path segment
+ * Examples:
+ * - '/api/admin/**' matches '/api/admin/users/{id}'
+ * - '**\/login*' matches '/api/login_check'
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split(/(\*\*|\*)/)
+    .map((part) => {
+      if (part === '**') return '.*'
+      if (part === '*') return '[^/]*'
+      return escapeRegExp(part)
+    })
+    .join('')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check whether a path matches a glob
+ */
+export function matchGlob(glob: string, path: string): boolean {
+  return globToRegExp(glob).test(path)
+}
@@ -0,0 +1,189 @@
+import type { InflectionConfig } from './types'
+
+type InflectionRule = [RegExp, string]
+
+/**
+ * Irregular words (singular -> plural)
+ */
+const IRREGULAR: Record<string, string> = {
+  person: 'people',
+  man: 'men',
+  woman: 'women',
+  child: 'children',
+  tooth: 'teeth',
+  foot: 'feet',
+  goose: 'geese',
+  mouse: 'mice',
+  ox: 'oxen',
+  leaf: 'leaves',
+  criterion: 'criteria',
+  phenomenon: 'phenomena',
+  datum: 'data'
+}
+
+/**
+ * Words that are the same in singular and plural
+ */
+const UNCOUNTABLE = new Set([
+  'data',
+  'metadata',
+  'media',
+  'news',
+  'series',
+  'species',
+  'information',
+  'equipment',
+  'feedback',
+  'software',
+  'hardware',
+  'firmware',
+  'music',
+  'money',
+  'rice',
+  'sheep',
+  'fish',
+  'deer',
+  'police',
+  'staff',
+  'traffic',
+  'analytics',
+  'progress',
+  'research',
+  'weather'
+])
+
+/**
+ * Plural -> singular rules, first match wins
+ */
+const SINGULAR_RULES: InflectionRule[] = [
+  [/(quiz)zes$/, '$1'],
+  [/(matr)ices$/, '$1ix'],
+  [/(vert|ind)ices$/, '$1ex'],
+  [/(alias|status|campus|virus|bonus|census|corpus|prospectus)(es)?$/, '$1'],
+  [/^(bus)(es)?$/, '$1'],
+  [/(octop|radi|cact|fung|nucle|stimul|syllab|alumn)i$/, '$1us'],
+  [/^(cris|test)es$/, '$1is'],
+  [/(analy|diagno|parenthe|progno|synop|hypothe|empha)ses$/, '$1sis'],
+  [/(her|potat|tomat|ech|vet|torped)oes$/, '$1o'],
+  [/^(movie|cookie|zombie|calorie|rookie|goalie|selfie|pie|tie|lie)s$/, '$1'],
+  [/([^aeiouy]|qu)ies$/, '$1y'],
+  [/(cach|nich|avalanch|headach|moustach|mustach|clich|tranch|psych)es$/, '$1e'],
+  [/(x|ch|ss|sh|zz)es$/, '$1'],
+  [/^(wol|hal|shel|cal|el|sel|thie|loa|whar|dwar|scar|hoo)ves$/, '$1f'],
+  [/^(kni|wi|li)ves$/, '$1fe'],
+  [/(ss|us|is)$/, '$1'],
+  [/s$/, '']
+]
+
+/**
+ * Singular -> plural rules, first match wins
+ */
+const PLURAL_RULES: InflectionRule[] = [
+  [/(quiz)$/, '$1zes'],
+  [/(matr)ix$/, '$1ices'],
+  [/(vert|ind)ex$/, '$1ices'],
+  [/(alias|status|bus|campus|virus|bonus|census|corpus|prospectus)$/, '$1es'],
+  [/(analy|diagno|parenthe|progno|synop|hypothe|empha|cri)sis$/, '$1ses'],
+  [/(her|potat|tomat|ech|vet|torped)o$/, '$1oes'],
+  [/([^aeiouy]|qu)y$/, '$1ies'],
+  [/(x|ch|ss|sh|zz)$/, '$1es'],
+  [/^(wol|hal|shel|cal|el|sel|thie|loa|whar|dwar|scar|hoo)f$/, '$1ves'],
+  [/^(kni|wi|li)fe$/, '$1ves'],
+  [/s$/, 's'],
+  [/$/, 's']
+]
+
+/**
+ * Apply the original word's capitalization to an inflected word
+ */
+function restoreCase(original: string, inflected: string): string {
+  if (original === original.toUpperCase() && original.length > 1) return inflected.toUpperCase()
+  if (original.charAt(0) === original.charAt(0).toUpperCase()) {
+    return inflected.charAt(0).toUpperCase() + inflected.slice(1)
+  }
+  return inflected
+}
+
+/**
+ * Inflect a single word with irregulars, uncountables and rules
+ */
+function inflect(
+  word: string,
+  irregular: Record<string, string>,
+  uncountable: Set<string>,
+  rules: InflectionRule[]
+): string {
+  const lower = word.toLowerCase()
+  if (!lower || uncountable.has(lower)) return word
+
+  if (irregular[lower]) return restoreCase(word, irregular[lower])
+  // The word is already in the target form
+  if (Object.values(irregular).includes(lower)) return word
+
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(lower)) {
+      return restoreCase(word, lower.replace(pattern, replacement))
+    }
+  }
+  return word
+}
+
+/**
+ * Merge the built-in dictionary with user additions
+ */
+function getDictionary(config: InflectionConfig = {}) {
+  const plurals: Record<string, string> = { ...IRREGULAR }
+  for (const [singular, plural] of Object.entries(config.irregular || {})) {
+    plurals[singular.toLowerCase()] = plural.toLowerCase()
+  }
+
+  const singulars: Record<string, string> = {}
+  for (const [singular, plural] of Object.entries(plurals)) {
+    singulars[plural] = singular
+  }
+
+  const uncountable = new Set(UNCOUNTABLE)
+  for (const word of config.uncountable || []) {
+    uncountable.add(word.toLowerCase())
+  }
+
+  return { plurals, singulars, uncountable }
+}
+
+/**
+ * Convert a word to its singular form
+ * Examples:
+ * - 'entries' -> 'entry'
+ * - 'statuses' -> 'status'
+ * - 'analyses' -> 'analysis'
+ * - 'people' -> 'person'
+ * - 'news' -> 'news'
+ */
+export function singularize(word: string, config: InflectionConfig = {}): string {
+  const { singulars, uncountable } = getDictionary(config)
+  return inflect(word, singulars, uncountable, SINGULAR_RULES)
+}
+
+/**
+ * Convert a word to its plural form
+ * Examples:
+ * - 'entry' -> 'entries'
+ * - 'status' -> 'statuses'
+ * - 'person' -> 'people'
+ */
+export function pluralize(word: string, config: InflectionConfig = {}): string {
+  const { plurals, uncountable } = getDictionary(config)
+  return inflect(word, plurals, uncountable, PLURAL_RULES)
+}
+
+/**
+ * Singularize the last word of a PascalCase name
+ * Examples:
+ * - 'TaskStatuses' -> 'TaskStatus'
+ * - 'UserWords' -> 'UserWord'
+ */
+export function singularizePascalCase(name: string, config: InflectionConfig = {}): string {
+  const words = name.split(/(?=[A-Z])/)
+  const last = words.pop() || ''
+  return words.join('') + singularize(last, config)
+}
@@ -0,0 +1,135 @@
+import { readFileSync, writeFileSync, existsSync, unlinkSync } from 'node:fs'
+import { join } from 'node:path'
+import { consola } from 'consola'
+import { hashContent } from './schema-fetcher'
+
+/**
+ * Name of the manifest written to the output directory
+ */
+export const MANIFEST_FILE_NAME = '.openapi-composables.json'
+
+/**
+ * Record of the files written by a generation run
+ */
+export interface GenerationManifest {
+  /** Version of nuxt-openapi-composables that generated the files */
+  toolVersion: string
+  /** SHA-256 of the schema the files were generated from */
+  schemaHash: string
+  /** File names relative to the output directory, mapped to the SHA-256 of their content */
+  files: Record<string, string>
+}
+
+/**
+ * Get the installed package version
+ */
+export function getToolVersion(): string {
+  // dist/ when running from the built package, src/core/ when running from source
+  for (const candidate of [join(__dirname, '../package.json'), join(__dirname, '../../package.json')]) {
+    if (existsSync(candidate)) {
+      try {
+        return JSON.parse(readFileSync(candidate, 'utf-8')).version || 'unknown'
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+  return 'unknown'
+}
+
+/**
+ * Build a manifest for generated files
+ */
+export function createManifest(files: Record<string, string>, schemaHash: string): GenerationManifest {
+  const hashes: Record<string, string> = {}
+  for (const fileName of Object.keys(files).sort()) {
+    hashes[fileName] = hashContent(files[fileName])
+  }
+  return { toolVersion: getToolVersion(), schemaHash, files: hashes }
+}
+
+/**
+ * Read the manifest of the previous run, if any
+ */
+export function readManifest(outputDir: string): GenerationManifest | undefined {
+  const manifestPath = join(outputDir, MANIFEST_FILE_NAME)
+  if (!existsSync(manifestPath)) return undefined
+
+  try {
+    const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as GenerationManifest
+    if (!manifest || typeof manifest.files !== 'object') {
+      throw new Error('missing "files"')
+    }
+    return manifest
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    consola.warn(`Ignoring unreadable manifest ${manifestPath}: ${reason}`)
+    return undefined
+  }
+}
+
+/**
+ * Write the manifest to the output directory
+ */
+export function writeManifest(outputDir: string, manifest: GenerationManifest): void {
+  writeFileSync(join(outputDir, MANIFEST_FILE_NAME), JSON.stringify(manifest, null, 2) + '\n', 'utf-8')
+}
+
+/**
+ * Get files the previous run generated that the current run no longer produces
+ */
+export function getStaleFiles(
+  previous: GenerationManifest | undefined,
+  currentFiles: Iterable<string>
+): string[] {
+  if (!previous) return []
+  const current = new Set(currentFiles)
+  return Object.keys(previous.files).filter(fileName => !current.has(fileName))
+}
+
+/**
+ * Check whether a stale file can be deleted safely: it lives directly in the output
+ * directory and still has the content the previous run generated
+ */
+function isRemovable(outputDir: string, fileName: string, previous: GenerationManifest): boolean {
+  // Never follow paths out of the output directory
+  if (fileName.includes('/') || fileName.includes('\\')) return false
+
+  const filePath = join(outputDir, fileName)
+  if (!existsSync(filePath)) return false
+
+  if (hashContent(readFileSync(filePath, 'utf-8')) !== previous.files[fileName]) {
+    consola.warn(`Keeping ${fileName}: it is no longer generated but was modified by hand`)
+    return false
+  }
+  return true
+}
+
+/**
+ * Get stale generated files that would be deleted
+ * Files edited since they were generated are kept with a warning
+ */
+export function getRemovableStaleFiles(
+  outputDir: string,
+  previous: GenerationManifest | undefined,
+  currentFiles: Iterable<string>
+): string[] {
+  return getStaleFiles(previous, currentFiles).filter(fileName =>
+    isRemovable(outputDir, fileName, previous!)
+  )
+}
+
+/**
+ * Delete stale generated files
+ * Only files listed in the previous manifest are considered, and files edited since
+ * they were generated are kept with a warning. Returns the deleted file names.
+ */
+export function removeStaleFiles(
+  outputDir: string,
+  previous: GenerationManifest | undefined,
+  currentFiles: Iterable<string>
+): string[] {
+  const removed = getRemovableStaleFiles(outputDir, previous, currentFiles)
+  removed.forEach(fileName => unlinkSync(join(outputDir, fileName)))
+  return removed
+}
@@ -1,6 +1,109 @@
-import type { OpenAPISchema, GeneratedMethod } from './types'
-import { toPascalCase, generateMethodName, ensureUniqueMethodNames } from './naming'
-import { getResourcePaths, getHttpMethods, getContentType } from './resource-parser'
+import type { OpenAPISchema, GeneratedMethod, ComposableOptions, OperationSecurity } from './types'
+import {
+  getComposableName,
+  getOpenApiComposableName,
+  getVueQueryComposableName,
+  getQueryName,
+  getQueryOptionsName,
+  getMutationName,
+  getQueryKeyHelperName,
+  getQueryKeysName,
+  resolveMethodNames
+} from './naming'
+import { getResourcePaths, getHttpMethods, getContentType, getOperationId, getSecurity } from './resource-parser'
+import { generateMethodDoc } from './doc-comment'
+import { generateQueryKeys, getInvalidatedPaths } from './query-keys'
+import { getRetryPolicy, formatRetryPolicy } from './retry'
+
+/**
+ * Get query composable names for the GET methods, keyed like the method names ('path:method')
+ * Empty unless `queries` is enabled
+ */
+function resolveQueryNames(methodNames: Map<string, string>, options: ComposableOptions): Map<string, string> {
+  const queryNames = new Map<string, string>()
+  if (!options.queries) return queryNames
+
+  const usedNames = new Set(methodNames.values())
+  methodNames.forEach((methodName, key) => {
+    if (!key.endsWith(':get')) return
+
+    // Fall back to the full method name when two methods map to the same query name
+    let queryName = getQueryName(methodName)
+    if (usedNames.has(queryName)) {
+      queryName = `use${methodName.charAt(0).toUpperCase()}${methodName.slice(1)}Query`
+    }
+    usedNames.add(queryName)
+    queryNames.set(key, queryName)
+  })
+
+  return queryNames
+}
+
+/**
+ * Get TanStack useMutation hook names for the write methods, keyed like the method names ('path:method')
+ * Empty unless `queries` is 'vue-query'
+ */
+function resolveMutationNames(methodNames: Map<string, string>, options: ComposableOptions): Map<string, string> {
+  const mutationNames = new Map<string, string>()
+  if (options.queries !== 'vue-query') return mutationNames
+
+  const usedNames = new Set(methodNames.values())
+  methodNames.forEach((methodName, key) => {
+    if (key.endsWith(':get')) return
+
+    let mutationName = getMutationName(methodName)
+    if (usedNames.has(mutationName)) {
+      mutationName = `use${methodName.charAt(0).toUpperCase()}${methodName.slice(1)}Mutation`
+    }
+    usedNames.add(mutationName)
+    mutationNames.set(key, mutationName)
+  })
+
+  return mutationNames
+}
+
+/**
+ * Get the GET paths a method refreshes after it succeeds, keyed like the method names ('path:method')
+ * Empty unless `queries` is enabled; GET methods refresh nothing
+ */
+function resolveInvalidates(methodNames: Map<string, string>, options: ComposableOptions): Map<string, string[]> {
+  const invalidates = new Map<string, string[]>()
+  if (!options.queries) return invalidates
+
+  const keys = Array.from(methodNames.keys())
+  const getPaths = keys.filter(key => key.endsWith(':get')).map(key => key.slice(0, -':get'.length))
+  for (const key of keys) {
+    if (key.endsWith(':get')) continue
+
+    const paths = getInvalidatedPaths(key.slice(0, key.lastIndexOf(':')), getPaths)
+    if (paths.length > 0) invalidates.set(key, paths)
+  }
+
+  return invalidates
+}
+
+/**
+ * Quote a string for the generated code
+ */
+function toStringLiteral(value: string): string {
+  return `'${value.replace(/[\\']/g, '\\$&')}'`
+}
+
+/**
+ * Format security requirements as the `security` option of createApiMethod
+ * Example: [{ bearerAuth: { type: 'bearer' } }] -> "[{ bearerAuth: { type: 'bearer' } }]"
+ */
+function formatSecurity(security: OperationSecurity[]): string {
+  const requirements = security.map((requirement) => {
+    const schemes = Object.entries(requirement).map(([name, credential]) => {
+      const fields = Object.entries(credential).map(([field, value]) => `${field}: ${toStringLiteral(value)}`)
+      const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : toStringLiteral(name)
+      return `${key}: { ${fields.join(', ')} }`
+    })
+    return schemes.length > 0 ? `{ ${schemes.join(', ')} }` : '{}'
+  })
+  return `[${requirements.join(', ')}]`
+}
 
 /**
  * Generate a composable file for a specific resource
@@ -8,9 +111,10 @@ import { getResourcePaths, getHttpMethods, getContentType } from './resource-par
 export function generateComposable(
   resourceName: string,
   schema: OpenAPISchema,
-  useApiImportPath?: string
+  useApiImportPath?: string,
+  options: ComposableOptions = {}
 ): string {
-  return generateComposableFromResources([resourceName], schema, useApiImportPath)
+  return generateComposableFromResources([resourceName], schema, useApiImportPath, options)
 }
 
 /**
@@ -19,62 +123,129 @@ export function generateComposable(
 export function generateComposableFromResources(
   resourceNames: string[],
   schema: OpenAPISchema,
-  useApiImportPath?: string
+  useApiImportPath?: string,
+  options: ComposableOptions = {}
 ): string {
   // Collect paths from all resources
   const allResourcePaths = resourceNames.flatMap(resourceName => 
-    getResourcePaths(resourceName, schema)
+    getResourcePaths(resourceName, schema, options.grouping).map(resourcePath => ({ ...resourcePath, resourceName }))
   )
 
   if (allResourcePaths.length === 0) return ''
 
-  // First pass: generate initial method names and detect duplicates
-  const methodNames = new Map<string, string>()
-
-  allResourcePaths.forEach(({ path, pathItem }) => {
-    const httpMethods = getHttpMethods(pathItem)
-
-    httpMethods.forEach((method) => {
-      const methodName = generateMethodName(path, method, schema)
-      methodNames.set(`${path}:${method}`, methodName)
-    })
-  })
-
-  // Second pass: ensure all method names are unique
-  const finalMethodNames = ensureUniqueMethodNames(methodNames)
+  // Generate method names with the configured strategy (unique across all resources)
+  const finalMethodNames = resolveMethodNames(
+    allResourcePaths.flatMap(({ path, pathItem }) =>
+      getHttpMethods(pathItem).map(method => ({ path, method }))
+    ),
+    schema,
+    options
+  )
+  const queryNames = resolveQueryNames(finalMethodNames, options)
+  const mutationNames = resolveMutationNames(finalMethodNames, options)
+  const invalidates = resolveInvalidates(finalMethodNames, options)
+  const vueQuery = options.queries === 'vue-query'
 
   // Generate method definitions
   const methods = allResourcePaths
-    .map(({ path, pathItem }) => {
+    .map(({ path, pathItem, resourceName }) => {
       const httpMethods = getHttpMethods(pathItem)
 
       return httpMethods
         .map((method) => {
-          const methodName = finalMethodNames.get(`${path}:${method}`)
+          const key = `${path}:${method}`
+          const methodName = finalMethodNames.get(key)
           const contentType = getContentType(path, method, schema)
-          return `  const ${methodName} = createApiMethod({
+          const operationId = getOperationId(path, method, schema)
+          const operationIdOption = operationId ? `,\n    operationId: ${toStringLiteral(operationId)}` : ''
+          const security = getSecurity(path, method, schema)
+          const securityOption = security ? `,\n    security: ${formatSecurity(security)}` : ''
+          const retry = getRetryPolicy(path, method, schema, options.retry?.[resourceName])
+          const retryOption = retry !== undefined ? `,\n    retry: ${formatRetryPolicy(retry)}` : ''
+          const invalidatedPaths = invalidates.get(key)?.map(invalidated => `'${invalidated}'`).join(', ')
+          // The method refreshes useAsyncData queries itself; TanStack queries are invalidated by its mutation hook
+          const invalidatesOption = invalidatedPaths && !vueQuery ? `,\n    invalidates: [${invalidatedPaths}]` : ''
+          const definition = `${generateMethodDoc(path, method, schema)}
+  const ${methodName} = createApiMethod({
     path: '${path}',
     method: '${method}',
-    contentType: '${contentType}'
+    contentType: '${contentType}'${operationIdOption}${securityOption}${retryOption}${invalidatesOption}
   })`
+
+          const queryName = queryNames.get(key)
+          if (queryName && vueQuery) {
+            return `${definition}
+
+  /** \`${methodName}\` as TanStack query options */
+  const ${getQueryOptionsName(queryName)} = createQueryOptions(${methodName}, '${path}')
+
+  /** Reactive \`${methodName}\` backed by \`useQuery\` */
+  const ${queryName} = createQuery(${methodName}, '${path}')`
+          }
+          if (queryName) {
+            return `${definition}
+
+  /** Reactive \`${methodName}\` backed by \`useAsyncData\` */
+  const ${queryName} = createQueryMethod(${methodName}, '${path}')`
+          }
+
+          const mutationName = mutationNames.get(key)
+          if (mutationName) {
+            return `${definition}
+
+  /** \`${methodName}\` backed by \`useMutation\` */
+  const ${mutationName} = createMutation(${methodName}${invalidatedPaths ? `, [${invalidatedPaths}]` : ''})`
+          }
+
+          return definition
         })
         .join('\n\n')
     })
     .filter(Boolean)
     .join('\n\n')
 
-  // Generate return statement
-  const returnMethods = Array.from(finalMethodNames.values())
+  // Generate return statement (each query or mutation follows its method)
+  const returnMethods = Array.from(finalMethodNames.entries())
+    .flatMap(([key, methodName]) => {
+      const queryName = queryNames.get(key)
+      return [methodName, queryName && vueQuery && getQueryOptionsName(queryName), queryName, mutationNames.get(key)]
+    })
+    .filter(Boolean)
     .map(methodName => `    ${methodName}`)
     .join(',\n')
+  const helpers = queryNames.size > 0 && !vueQuery ? 'createApiMethod, createQueryMethod' : 'createApiMethod'
+  const vueQueryHelpers = vueQuery
+    ? [
+        ...(queryNames.size > 0 ? ['createQueryOptions', 'createQuery'] : []),
+        ...(mutationNames.size > 0 ? ['createMutation'] : [])
+      ].join(', ')
+    : ''
 
   // Use the first resource name for the composable name
-  const composableName = toPascalCase(resourceNames[0])
+  const composableName = getComposableName(resourceNames[0], options.naming)
+  const openApiName = getOpenApiComposableName(options.naming)
 
-  return `import { useOpenApi } from './useOpenApi'
+  // Query key factory of the GET endpoints, when queries are enabled
+  const keyHelperName = getQueryKeyHelperName(options.naming)
+  const queryKeys = generateQueryKeys(
+    getQueryKeysName(composableName, options.naming),
+    Array.from(queryNames.keys()).map(key => ({
+      path: key.slice(0, -':get'.length),
+      methodName: finalMethodNames.get(key)!
+    })),
+    keyHelperName
+  )
+  const imports = queryKeys ? `${openApiName}, ${keyHelperName}` : openApiName
+
+  // TanStack Vue Query helpers, when the composable has queries or mutations
+  const vueQueryName = getVueQueryComposableName(options.naming)
+  const vueQueryImport = vueQueryHelpers ? `\nimport { ${vueQueryName} } from './${vueQueryName}'` : ''
+  const vueQuerySetup = vueQueryHelpers ? `\n  const { ${vueQueryHelpers} } = ${vueQueryName}()` : ''
 
-export const use${composableName}Api = () => {
-  const { createApiMethod } = useOpenApi()
+  return `import { ${imports} } from './${openApiName}'${vueQueryImport}
+${queryKeys ? `\n${queryKeys}\n` : ''}
+export const ${composableName} = () => {
+  const { ${helpers} } = ${openApiName}()${vueQuerySetup}
 
 ${methods}
 
@@ -90,23 +261,22 @@ ${returnMethods}
  */
 export function getGeneratedMethods(
   resourceName: string,
-  schema: OpenAPISchema
+  schema: OpenAPISchema,
+  options: ComposableOptions = {}
 ): GeneratedMethod[] {
-  const resourcePaths = getResourcePaths(resourceName, schema)
-  const methodNames = new Map<string, string>()
+  const resourcePaths = getResourcePaths(resourceName, schema, options.grouping)
 
-  // Generate method names
-  resourcePaths.forEach(({ path, pathItem }) => {
-    const httpMethods = getHttpMethods(pathItem)
-
-    httpMethods.forEach((method) => {
-      const methodName = generateMethodName(path, method, schema)
-      methodNames.set(`${path}:${method}`, methodName)
-    })
-  })
-
-  // Ensure unique names
-  const finalMethodNames = ensureUniqueMethodNames(methodNames)
+  // Generate unique method names with the configured strategy
+  const finalMethodNames = resolveMethodNames(
+    resourcePaths.flatMap(({ path, pathItem }) =>
+      getHttpMethods(pathItem).map(method => ({ path, method }))
+    ),
+    schema,
+    options
+  )
+  const queryNames = resolveQueryNames(finalMethodNames, options)
+  const mutationNames = resolveMutationNames(finalMethodNames, options)
+  const invalidates = resolveInvalidates(finalMethodNames, options)
 
   // Build result array
   const result: GeneratedMethod[] = []
@@ -119,11 +289,22 @@ export function getGeneratedMethods(
       const contentType = getContentType(path, method, schema)
 
       if (name) {
+        const queryName = queryNames.get(`${path}:${method}`)
+        const mutationName = mutationNames.get(`${path}:${method}`)
+        const invalidatedPaths = invalidates.get(`${path}:${method}`)
+        const security = getSecurity(path, method, schema)
+        const retry = getRetryPolicy(path, method, schema, options.retry?.[resourceName])
         result.push({
           name,
           path,
           httpMethod: method,
-          contentType
+          contentType,
+          ...(queryName && { queryName }),
+          ...(queryName && options.queries === 'vue-query' && { queryOptionsName: getQueryOptionsName(queryName) }),
+          ...(mutationName && { mutationName }),
+          ...(invalidatedPaths && { invalidates: invalidatedPaths }),
+          ...(security && { security }),
+          ...(retry !== undefined && { retry })
         })
       }
     })
@@ -1,4 +1,31 @@
-import type { OpenAPISchema, PathItem, Operation } from './types'
+import type {
+  OpenAPISchema,
+  PathItem,
+  Operation,
+  ComposableOptions,
+  NamingConfig,
+  GroupingConfig,
+  GroupingRule
+} from './types'
+import { matchGlob } from './glob'
+import { singularizePascalCase } from './inflection'
+
+/**
+ * Valid JavaScript identifier (generated names must be usable as `const` names)
+ */
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+/**
+ * Words that can't be used as a `const` name in generated code
+ */
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if',
+  'import', 'in', 'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw',
+  'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'let', 'static',
+  'implements', 'interface', 'package', 'private', 'protected', 'public', 'await', 'arguments',
+  'eval'
+])
 
 /**
  * Convert a string to PascalCase
@@ -18,63 +45,127 @@ export function toPascalCase(str: string): string {
 }
 
 /**
- * Extract resource name from API path and schema
+ * Default grouping rules: authentication endpoints share one composable
+ */
+export const DEFAULT_GROUPING_RULES: GroupingRule[] = [
+  { match: '**/auth', resource: 'authentication' },
+  { match: '**/auth/**', resource: 'authentication' },
+  { match: '**/login*', resource: 'authentication' },
+  { match: '**/token', resource: 'authentication' },
+  { match: '**/token/**', resource: 'authentication' }
+]
+
+/**
+ * Compile a base path pattern into a RegExp capturing the resource segment
  * Examples:
- * - '/api/tasks' -> 'tasks'
- * - '/api/goal-stats' -> 'goal-stats'
- * - '/auth/login' -> 'authentication'
+ * - '/api' -> matches '/api/tasks' (captures 'tasks')
+ * - '/v{n}' -> matches '/v2/tasks' (captures 'tasks')
+ * - '/' -> matches the first segment
  */
-export function getResourceName(path: string, schema: OpenAPISchema): string {
-  // Handle special auth endpoints first
-  if (path.includes('/auth/') || path.includes('/login') || path.includes('/token')) {
-    return 'authentication'
-  }
+function compileBasePath(pattern: string): RegExp {
+  const trimmed = pattern.replace(/^\/+|\/+$/g, '')
+  if (!trimmed) return /^\/([^/]+)/
 
-  // Primary approach: Extract resource name directly from path
-  const match = path.match(/\/api\/([^/]+)/)
-  const pathResourceName = match?.[1] ?? ''
+  const source = ('/' + trimmed)
+    .split(/(\{n\}|\*)/)
+    .map((part) => {
+      if (part === '{n}') return '\\d+'
+      if (part === '*') return '[^/]+'
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+  return new RegExp(`${source}/([^/]+)`)
+}
 
-  // If we have a clear path-based resource name, use it
-  if (pathResourceName) {
-    return pathResourceName
+/**
+ * Match a path against the configured base path patterns
+ * Returns the resource segment and the index where it starts, or null
+ */
+function matchBasePath(path: string, grouping: GroupingConfig): { resource: string; index: number } | null {
+  const patterns = ([] as string[]).concat(grouping.basePath ?? '/api')
+  for (const pattern of patterns) {
+    const match = path.match(compileBasePath(pattern))
+    if (match?.[1] !== undefined && match.index !== undefined) {
+      return { resource: match[1], index: match.index + match[0].length - match[1].length }
+    }
   }
+  return null
+}
 
-  // Fallback: Try to get the resource name from OpenAPI tags
-  const pathItem = schema?.paths?.[path]
-  if (pathItem) {
-    // Look for the first HTTP method and get its tags
-    const methods = ['get', 'post', 'put', 'patch', 'delete']
-    for (const method of methods) {
-      const operation = pathItem[method as keyof PathItem] as Operation | undefined
-      if (operation?.tags?.[0]) {
-        const tag = operation.tags[0]
-        // Convert tag to lowercase with dashes (e.g., "UserLimits" -> "user-limits", "Login Check" -> "login-check")
-        return tag
-          .replace(/([a-z])([A-Z])/g, '$1-$2') // Split camelCase
-          .replace(/\s+/g, '-') // Replace spaces with dashes
-          .toLowerCase()
-      }
-    }
+/**
+ * Get the path segments following the base path
+ * Examples:
+ * - '/api/tasks/{id}' -> ['tasks', '{id}']
+ * - '/v2/tasks/{id}' with basePath '/v{n}' -> ['tasks', '{id}']
+ */
+export function getPathSegments(path: string, grouping: GroupingConfig = {}): string[] {
+  const base = matchBasePath(path, grouping)
+  if (base) {
+    return path.slice(base.index).split('/').filter(Boolean)
   }
+  return path.split('/').filter(seg => seg && seg !== 'api')
+}
 
-  return ''
+/**
+ * Convert a tag to a resource name
+ * Examples:
+ * - 'UserLimits' -> 'user-limits'
+ * - 'Login Check' -> 'login-check'
+ */
+function tagToResourceName(tag: string): string {
+  return tag
+    .replace(/([a-z])([A-Z])/g, '$1-$2') // Split camelCase
+    .replace(/\s+/g, '-') // Replace spaces with dashes
+    .toLowerCase()
 }
 
 /**
- * Convert resource name to singular form (basic implementation)
+ * Get the resource name from the first tag of the first operation of a path
  */
-function toSingular(str: string): string {
-  // Handle common patterns
-  if (str.endsWith('ies')) {
-    return str.slice(0, -3) + 'y' // entries -> entry
-  }
-  if (str.endsWith('sses')) {
-    return str.slice(0, -2) // classes -> class
+function getTagResourceName(pathItem: PathItem | undefined): string {
+  if (!pathItem) return ''
+
+  const methods = ['get', 'post', 'put', 'patch', 'delete']
+  for (const method of methods) {
+    const operation = pathItem[method as keyof PathItem] as Operation | undefined
+    if (operation?.tags?.[0]) {
+      return tagToResourceName(operation.tags[0])
+    }
   }
-  if (str.endsWith('s') && !str.endsWith('ss')) {
-    return str.slice(0, -1) // users -> user
+  return ''
+}
+
+/**
+ * Extract resource name from API path and schema
+ * Examples:
+ * - '/api/tasks' -> 'tasks'
+ * - '/api/goal-stats' -> 'goal-stats'
+ * - '/auth/login' -> 'authentication'
+ * - '/v2/tasks' with basePath '/v{n}' -> 'tasks'
+ */
+export function getResourceName(
+  path: string,
+  schema: OpenAPISchema,
+  grouping: GroupingConfig = {}
+): string {
+  // Explicit rules win over every grouping mode
+  const rule = (grouping.rules ?? DEFAULT_GROUPING_RULES).find(rule => matchGlob(rule.match, path))
+  if (rule) return rule.resource
+
+  const pathItem = schema?.paths?.[path]
+  const pathResourceName = matchBasePath(path, grouping)?.resource ?? ''
+
+  switch (grouping.groupBy) {
+    case 'tag':
+      return getTagResourceName(pathItem) || pathResourceName
+    case 'custom': {
+      const defaultName = pathResourceName || getTagResourceName(pathItem)
+      return grouping.resolve?.({ path, pathItem, defaultName }) || defaultName
+    }
+    default:
+      // Path first, OpenAPI tags as fallback
+      return pathResourceName || getTagResourceName(pathItem)
   }
-  return str
 }
 
 /**
@@ -90,15 +181,17 @@ function toSingular(str: string): string {
 export function generateMethodName(
   path: string,
   method: string,
-  schema: OpenAPISchema
+  schema: OpenAPISchema,
+  options: ComposableOptions = {}
 ): string {
-  const resourceName = getResourceName(path, schema)
+  const grouping = options.grouping || {}
+  const resourceName = getResourceName(path, schema, grouping)
   if (!resourceName) return method + 'Api'
 
   const baseName = toPascalCase(resourceName)
   
-  // Split the path into segments
-  const pathSegments = path.split('/').filter(seg => seg && seg !== 'api')
+  // Split the path into segments (after the base path)
+  const pathSegments = getPathSegments(path, grouping)
   
   // Check if path has parameters
   const hasPathParams = path.includes('{')
@@ -122,7 +215,7 @@ export function generateMethodName(
   // Handle endpoints with {id} parameter (single resource operations)
   // Check if there are modifiers after the {id} (like /api/habits/{id}/streak)
   if (hasIdParam) {
-    const singularName = toSingular(baseName)
+    const singularName = singularizePascalCase(baseName, options.naming?.inflection)
     
     // If there are modifiers after {id}, it's an action on the resource
     if (pathModifiers.length > 0) {
@@ -165,6 +258,211 @@ export function generateMethodName(
   return `${method}${baseName}Api`
 }
 
+/**
+ * Convert an operationId into a valid camelCase method name
+ * Examples:
+ * - 'createTask' -> 'createTask'
+ * - 'api_tasks_get_collection' -> 'apiTasksGetCollection'
+ * - 'Tasks.List' -> 'tasksList'
+ * - 'delete' -> 'deleteApi' (reserved word)
+ * - '2fa-verify' (POST) -> 'post2faVerify' (leading digit)
+ */
+export function operationIdToMethodName(operationId: string, method: string): string {
+  const pascal = toPascalCase(operationId.replace(/[^A-Za-z0-9]+/g, ' '))
+  if (!pascal) return method + 'Api'
+
+  const camel = pascal.charAt(0).toLowerCase() + pascal.slice(1)
+
+  if (/^[0-9]/.test(camel)) {
+    return `${method}${camel}`
+  }
+  if (RESERVED_WORDS.has(camel)) {
+    return `${camel}Api`
+  }
+  return camel
+}
+
+/**
+ * Resolve unique method names for a set of operations using the configured naming strategy
+ * Returns a map of 'path:method' -> method name
+ */
+export function resolveMethodNames(
+  operations: Array<{ path: string; method: string }>,
+  schema: OpenAPISchema,
+  options: ComposableOptions = {}
+): Map<string, string> {
+  const naming = options.naming || {}
+  const strategy = naming.strategy || 'path'
+  const methodNames = new Map<string, string>()
+  const operationIds = new Map<string, string>()
+
+  operations.forEach(({ path, method }) => {
+    const key = `${path}:${method}`
+    const operation = schema.paths?.[path]?.[method as keyof PathItem] as Operation | undefined
+    if (operation?.operationId) {
+      operationIds.set(key, operationIdToMethodName(operation.operationId, method))
+    }
+
+    const operationIdName = operationIds.get(key)
+    methodNames.set(
+      key,
+      strategy === 'operationId' && operationIdName
+        ? operationIdName
+        : generateMethodName(path, method, schema, options)
+    )
+  })
+
+  // Hybrid: keep path names, but switch colliding ones to their operationId names
+  if (strategy === 'hybrid') {
+    const counts = new Map<string, number>()
+    methodNames.forEach(name => counts.set(name, (counts.get(name) || 0) + 1))
+    methodNames.forEach((name, key) => {
+      const operationIdName = operationIds.get(key)
+      if ((counts.get(name) || 0) > 1 && operationIdName) {
+        methodNames.set(key, operationIdName)
+      }
+    })
+  }
+
+  // User hook gets the final say before names are made unique
+  if (naming.method) {
+    operations.forEach(({ path, method }) => {
+      const key = `${path}:${method}`
+      const defaultName = methodNames.get(key) as string
+      const name = naming.method!({
+        path,
+        method,
+        operation: (schema.paths?.[path]?.[method as keyof PathItem] as Operation) || {},
+        resource: getResourceName(path, schema, options.grouping),
+        defaultName
+      })
+      if (name) {
+        assertIdentifier(name, 'method', `${method.toUpperCase()} ${path}`)
+        methodNames.set(key, name)
+      }
+    })
+  }
+
+  return ensureUniqueMethodNames(methodNames)
+}
+
+/**
+ * Throw if a naming hook returned something that can't be used as a `const` name
+ */
+function assertIdentifier(name: string, kind: string, subject: string): void {
+  if (!IDENTIFIER.test(name) || RESERVED_WORDS.has(name)) {
+    throw new Error(`Naming hook returned invalid ${kind} name "${name}" for ${subject}`)
+  }
+}
+
+/**
+ * Get the name of the useOpenApi composable the resource composables share
+ * Examples:
+ * - no namespace -> 'useOpenApi'
+ * - 'billing' -> 'useBillingOpenApi'
+ */
+export function getOpenApiComposableName(naming: NamingConfig = {}): string {
+  return `use${toPascalCase(naming.namespace || '')}OpenApi`
+}
+
+/**
+ * Get the name of the TanStack Vue Query composable the resource composables share
+ * Examples:
+ * - no namespace -> 'useOpenApiVueQuery'
+ * - 'billing' -> 'useBillingOpenApiVueQuery'
+ */
+export function getVueQueryComposableName(naming: NamingConfig = {}): string {
+  return `${getOpenApiComposableName(naming)}VueQuery`
+}
+
+/**
+ * Get the name of the query key helper exported by useOpenApi.ts
+ * Examples:
+ * - no namespace -> 'getQueryKey'
+ * - 'billing' -> 'getBillingQueryKey'
+ */
+export function getQueryKeyHelperName(naming: NamingConfig = {}): string {
+  return `get${toPascalCase(naming.namespace || '')}QueryKey`
+}
+
+/**
+ * Get the name of the query key factory for a composable
+ * Examples:
+ * - 'useTasksApi' -> 'taskKeys'
+ * - 'useBillingInvoicesApi' -> 'billingInvoiceKeys'
+ */
+export function getQueryKeysName(composableName: string, naming: NamingConfig = {}): string {
+  const base = singularizePascalCase(composableName.replace(/^use(?=[A-Z])/, '').replace(/Api$/, ''), naming.inflection)
+  return `${base.charAt(0).toLowerCase()}${base.slice(1)}Keys`
+}
+
+/**
+ * Get the name of the reactive query composable for a GET method
+ * Examples:
+ * - 'getTaskApi' -> 'useTaskQuery'
+ * - 'listTasks' -> 'useListTasksQuery'
+ */
+export function getQueryName(methodName: string): string {
+  const base = methodName.replace(/^get(?=[A-Z])/, '').replace(/Api$/, '')
+  return `use${base.charAt(0).toUpperCase()}${base.slice(1)}Query`
+}
+
+/**
+ * Get the name of the TanStack query options factory for a query composable
+ * Example: 'useTaskQuery' -> 'taskQueryOptions'
+ */
+export function getQueryOptionsName(queryName: string): string {
+  const base = queryName.replace(/^use/, '')
+  return `${base.charAt(0).toLowerCase()}${base.slice(1)}Options`
+}
+
+/**
+ * Get the name of the TanStack useMutation hook for a write method
+ * Examples:
+ * - 'patchTaskApi' -> 'usePatchTaskMutation'
+ * - 'createTask' -> 'useCreateTaskMutation'
+ */
+export function getMutationName(methodName: string): string {
+  const base = methodName.replace(/Api$/, '')
+  return `use${base.charAt(0).toUpperCase()}${base.slice(1)}Mutation`
+}
+
+/**
+ * Get the composable name for a resource
+ * Examples:
+ * - 'tasks' -> 'useTasksApi'
+ * - 'goal-stats' -> 'useGoalStatsApi'
+ * - 'invoices' in the 'billing' namespace -> 'useBillingInvoicesApi'
+ */
+export function getComposableName(resource: string, naming: NamingConfig = {}): string {
+  const defaultName = `use${toPascalCase(naming.namespace || '')}${toPascalCase(resource)}Api`
+  const name = naming.composable?.({ resource, defaultName })
+  if (!name) return defaultName
+
+  assertIdentifier(name, 'composable', `resource "${resource}"`)
+  return name
+}
+
+/**
+ * Get the file name of the composable for a resource
+ * Examples:
+ * - 'tasks' -> 'useTasksApi.ts'
+ */
+export function getComposableFileName(resource: string, naming: NamingConfig = {}): string {
+  const composableName = getComposableName(resource, naming)
+  const defaultName = `${composableName}.ts`
+  const name = naming.file?.({ resource, composableName, defaultName })
+  if (!name) return defaultName
+
+  const reserved = [getOpenApiComposableName(naming), getVueQueryComposableName(naming)].map(file => `${file}.ts`)
+  if (!name.endsWith('.ts') || /[\\/]/.test(name) || reserved.includes(name)) {
+    throw new Error(
+      `Naming hook returned invalid file name "${name}" for resource "${resource}" (expected a plain .ts file name)`
+    )
+  }
+  return name
+}
+
 /**
  * Ensure method names are unique by adding distinguishing path segments
  */
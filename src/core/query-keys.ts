@@ -0,0 +1,113 @@
+import { getQueryName, toPascalCase } from './naming'
+
+/**
+ * A GET endpoint of a composable and its method name
+ */
+export interface QueryEndpoint {
+  path: string
+  methodName: string
+}
+
+/**
+ * Whether a path segment is a parameter (e.g. '{id}')
+ */
+const isParamSegment = (segment: string): boolean => /^\{[^}]+\}$/.test(segment)
+
+/**
+ * Get the GET paths a mutation refreshes: its collection, its item and itself
+ * These are the GET paths the mutation path starts with, segment by segment (any parameter
+ * matches any parameter), written with the mutation's parameter names so the call's params fill them
+ * Example: ('/api/tasks/{id}/complete', ['/api/tasks', '/api/tasks/{taskId}']) -> ['/api/tasks', '/api/tasks/{id}']
+ */
+export function getInvalidatedPaths(path: string, getPaths: string[]): string[] {
+  const segments = path.split('/')
+
+  return getPaths
+    .map(getPath => getPath.split('/'))
+    .filter(getSegments =>
+      getSegments.length <= segments.length &&
+      getSegments.every((segment, index) =>
+        isParamSegment(segment) ? isParamSegment(segments[index]) : segment === segments[index]
+      )
+    )
+    .sort((a, b) => a.length - b.length)
+    .map(getSegments => segments.slice(0, getSegments.length).join('/'))
+}
+
+/**
+ * Get the argument name for a path parameter
+ * Example: 'task-id' -> 'taskId'
+ */
+function getParamArgName(param: string): string {
+  const pascal = toPascalCase(param.replace(/[^A-Za-z0-9_-]/g, '-')) || 'Param'
+  const name = `${pascal.charAt(0).toLowerCase()}${pascal.slice(1)}`
+  return /^[0-9]/.test(name) ? `_${name}` : name
+}
+
+/**
+ * Name the key of each GET path
+ * The shortest path without parameters is `list` and the list path followed by one parameter
+ * is `detail`; other paths are named after their query (e.g. 'getTaskStreakApi' -> 'taskStreak')
+ */
+function resolveKeyNames(endpoints: QueryEndpoint[]): Map<string, string> {
+  const names = new Map<string, string>()
+
+  const listPath = endpoints
+    .map(({ path }) => path)
+    .filter(path => !path.includes('{'))
+    .sort((a, b) => a.length - b.length)[0]
+  if (listPath) {
+    names.set(listPath, 'list')
+    const detailPath = endpoints.find(({ path }) =>
+      path.startsWith(`${listPath}/`) && isParamSegment(path.slice(listPath.length + 1))
+    )?.path
+    if (detailPath) names.set(detailPath, 'detail')
+  }
+
+  const usedNames = new Set(names.values())
+  for (const { path, methodName } of endpoints) {
+    if (names.has(path)) continue
+
+    // Fall back to the full method name when two paths map to the same key name
+    const base = getQueryName(methodName).replace(/^use/, '').replace(/Query$/, '')
+    let name = `${base.charAt(0).toLowerCase()}${base.slice(1)}`
+    if (usedNames.has(name)) name = methodName
+    usedNames.add(name)
+    names.set(path, name)
+  }
+
+  return names
+}
+
+/**
+ * Generate the query key factory of a composable
+ * Each GET path gets a function from its path parameters and query to the key its query composable uses
+ * Example: `taskKeys.detail(1)` -> 'openapi:/api/tasks/1'
+ */
+export function generateQueryKeys(name: string, endpoints: QueryEndpoint[], helperName: string): string {
+  if (endpoints.length === 0) return ''
+
+  const keyNames = resolveKeyNames(endpoints)
+  const entries = endpoints.map(({ path }) => {
+    const params = [...path.matchAll(/\{([^}]+)\}/g)].map(match => ({
+      param: match[1],
+      arg: getParamArgName(match[1])
+    }))
+
+    const args = [
+      ...params.map(({ arg }) => `${arg}: string | number`),
+      'query?: Record<string, unknown>'
+    ].join(', ')
+    const paramsObject = params
+      .map(({ param, arg }) => (param === arg ? arg : `'${param}': ${arg}`))
+      .join(', ')
+    const options = params.length > 0 ? `{ params: { ${paramsObject} }, query }` : '{ query }'
+
+    return `  ${keyNames.get(path)}: (${args}) => ${helperName}('${path}', ${options})`
+  })
+
+  return `/** Query keys of the composable's GET endpoints, for \`invalidate\` and \`refreshNuxtData\` */
+export const ${name} = {
+${entries.join(',\n')}
+}`
+}
@@ -0,0 +1,278 @@
+import { readFileSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import type {
+  OpenAPISchema,
+  RenderConfig,
+  RenderResult,
+  RenderedComposable,
+  GeneratedMethod,
+  NamingConfig
+} from './types'
+import {
+  getComposableName,
+  getComposableFileName,
+  getOpenApiComposableName,
+  getVueQueryComposableName,
+  getQueryKeyHelperName,
+  toPascalCase
+} from './naming'
+import { extractResources, getHttpMethods } from './resource-parser'
+import { filterSchema } from './filter'
+import { generateComposableFromResources, getGeneratedMethods } from './method-generator'
+
+/**
+ * Generate TypeScript types using openapi-typescript
+ */
+async function renderTypes(schema: OpenAPISchema): Promise<string> {
+  try {
+    const openapiTS = await import('openapi-typescript')
+
+    // Generate types from the same bundled document used for the composables
+    const output = await openapiTS.default(schema as Parameters<typeof openapiTS.default>[0], {
+      defaultNonNullable: false
+    })
+
+    // openapi-typescript 7 returns TypeScript AST nodes
+    return typeof output === 'string' ? output : openapiTS.astToString(output)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to generate TypeScript types: ${errorMessage}`)
+  }
+}
+
+/**
+ * Read a template file
+ * Templates are in dist/templates when running from the built package,
+ * or in templates/ when running from source during tests
+ */
+function readTemplate(fileName: string): string {
+  let sourceFile = join(__dirname, '../templates', fileName)
+  if (!existsSync(sourceFile)) {
+    sourceFile = join(__dirname, '../../templates', fileName)
+  }
+  return readFileSync(sourceFile, 'utf-8')
+}
+
+/**
+ * Render useOpenApiVueQuery.ts, the TanStack Vue Query helpers for `queries: 'vue-query'`
+ * A naming namespace renames the composable and the useOpenApi import
+ * (e.g. 'billing' -> useBillingOpenApiVueQuery, importing getBillingQueryKey from ./useBillingOpenApi)
+ */
+function renderUseOpenApiVueQuery(naming: NamingConfig = {}): string {
+  const content = readTemplate('useOpenApiVueQuery.ts')
+  if (!naming.namespace) return content
+
+  return content
+    .replace(/\buseOpenApiVueQuery\b/g, getVueQueryComposableName(naming))
+    .replace(/from '\.\/useOpenApi'/, `from './${getOpenApiComposableName(naming)}'`)
+    .replace(/\bgetQueryKey\b/g, getQueryKeyHelperName(naming))
+}
+
+/**
+ * Render useOpenApi.ts with correct types path, optional default prefix and auth cookie name
+ * A naming namespace renames the composable, its types, its runtime config key, query keys, interceptors
+ * and auth (e.g. 'billing' -> useBillingOpenApi, BillingEndpointConfig, public.billingApiPrefix,
+ * getBillingQueryKey, 'openapi:billing:...', addBillingOpenApiInterceptor, configureBillingOpenApiAuth,
+ * configureBillingOpenApiRetry, BillingApiError, isBillingApiError)
+ */
+function renderUseOpenApi(
+  typesImportPath?: string,
+  defaultApiPrefix?: string,
+  naming: NamingConfig = {},
+  cookieName?: string
+): string {
+  let content = readTemplate('useOpenApi.ts')
+  
+  // Replace the types import path if provided
+  if (typesImportPath) {
+    content = content.replace(
+      /import type { paths } from '~\/types\/api'/,
+      `import type { paths } from '${typesImportPath}'`
+    )
+  }
+  
+  // Replace the default API prefix the template falls back to when runtime config sets none
+  if (defaultApiPrefix !== undefined) {
+    content = content.replace(/return '\/api\/symfony'/g, `return '${defaultApiPrefix}'`)
+  }
+
+  // Replace the auth cookie name if provided
+  if (cookieName) {
+    content = content
+      .replace(/AUTH_COOKIE_NAME = 'authToken'/, `AUTH_COOKIE_NAME = '${cookieName}'`)
+      .replace(/token of the 'authToken' cookie/, `token of the '${cookieName}' cookie`)
+  }
+
+  const namespace = toPascalCase(naming.namespace || '')
+  const prefixKey = namespace ? `${namespace.charAt(0).toLowerCase()}${namespace.slice(1)}ApiPrefix` : 'apiPrefix'
+  if (namespace) {
+    content = content
+      .replace(/export const useOpenApi = /, `export const ${getOpenApiComposableName(naming)} = `)
+      .replace(/\bEndpointConfig\b/g, `${namespace}EndpointConfig`)
+      .replace(/public(\??)\.apiPrefix/g, `public$1.${prefixKey}`)
+      .replace(/QUERY_KEY_PREFIX = 'openapi'/, `QUERY_KEY_PREFIX = 'openapi:${naming.namespace}'`)
+      .replace(/\bgetQueryKey\b/g, getQueryKeyHelperName(naming))
+      .replace(/\b(add|configure)?OpenApi(?=Interceptor\b|RequestContext\b|Endpoint\b|Auth\b|AuthOptions\b|Security(Credential|Requirement)\b|Retry\b|RetryPolicy\b|Error\b)/g, `$1${namespace}OpenApi`)
+      .replace(/\b(is)?ApiError\b/g, `$1${namespace}ApiError`)
+  }
+  const prefixEnv = `NUXT_PUBLIC_${prefixKey.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`
+  
+  // Add configuration comment at the top
+  const configComment = `/**
+ * API Configuration:
+ *
+ * To configure the API prefix in your Nuxt project, add this to your nuxt.config.ts:
+ *
+ * export default defineNuxtConfig({
+ *   runtimeConfig: {
+ *     public: {
+ *       ${prefixKey}: '/api/symfony' // or your custom prefix
+ *     }
+ *   }
+ * })
+ *
+ * Or use environment variable: ${prefixEnv}=/api/symfony
+ *
+ * If not configured, defaults to: '${defaultApiPrefix ?? '/api/symfony'}'
+ *
+ * Error Handling:
+ * All API errors are thrown and can be caught by your application.
+ * Errors include kind ('http', 'network', 'timeout' or 'abort'), status, statusCode,
+ * statusMessage and data (the error response body) properties.
+ *
+ * Example:
+ * try {
+ *   await postTasksApi({ body })
+ * } catch (error) {
+ *   if (is${namespace}ApiError(error, '/api/tasks', 'post') && error.status === 422) {
+ *     // error.data is typed from the 422 response of the schema
+ *   }
+ * }
+ */
+
+`
+  return configComment + content
+}
+
+/**
+ * Render one composable file per normalized file name
+ */
+function renderComposableFiles(
+  resources: Set<string>,
+  schema: OpenAPISchema,
+  config: RenderConfig
+): { composables: RenderedComposable[]; contents: Record<string, string> } {
+  const options = { naming: config.naming, grouping: config.grouping, queries: config.queries, retry: config.retry }
+
+  // Group resources by their normalized filename to avoid duplicates
+  const resourcesByFilename = new Map<string, string[]>()
+  for (const resource of resources) {
+    const fileName = getComposableFileName(resource, config.naming)
+    const existingResources = resourcesByFilename.get(fileName) || []
+    existingResources.push(resource)
+    resourcesByFilename.set(fileName, existingResources)
+  }
+
+  const composables: RenderedComposable[] = []
+  const contents: Record<string, string> = {}
+
+  for (const [fileName, resourceList] of resourcesByFilename) {
+    const content = generateComposableFromResources(
+      resourceList,
+      schema,
+      config.useApiImportPath,
+      options
+    )
+    if (!content) continue
+
+    // Collect all methods from all resources that map to this file
+    const methods = new Map<string, GeneratedMethod>()
+    for (const resource of resourceList) {
+      getGeneratedMethods(resource, schema, options).forEach((method) => {
+        if (!methods.has(method.name)) methods.set(method.name, method)
+      })
+    }
+
+    contents[fileName] = content
+    composables.push({
+      fileName,
+      composableName: getComposableName(resourceList[0], config.naming),
+      resources: resourceList,
+      methods: Array.from(methods.values())
+    })
+  }
+
+  return { composables, contents }
+}
+
+/**
+ * Count the generated operations of a schema
+ */
+function countOperations(schema: OpenAPISchema): number {
+  return Object.values(schema.paths || {}).reduce(
+    (count, pathItem) => count + getHttpMethods(pathItem).length,
+    0
+  )
+}
+
+/**
+ * Render composables, useOpenApi.ts and (optionally) TypeScript types in memory
+ * Nothing is written to disk or logged; `generateComposables` writes the returned files.
+ * File paths are `outputDir` joined with the file name, plus `typesOutputPath` for types.
+ */
+export async function renderComposables(
+  schema: OpenAPISchema,
+  config: RenderConfig
+): Promise<RenderResult> {
+  const warnings: string[] = []
+
+  // Drop filtered operations before anything is generated from the schema
+  const filteredSchema = filterSchema(schema, { include: config.include, exclude: config.exclude })
+  const filteredOperations = countOperations(schema) - countOperations(filteredSchema)
+
+  const resources = extractResources(filteredSchema, config.grouping)
+  if (resources.size === 0) {
+    throw new Error('No API resources found in the schema')
+  }
+
+  const files: Record<string, string> = {}
+
+  try {
+    files[join(config.outputDir, `${getOpenApiComposableName(config.naming)}.ts`)] = renderUseOpenApi(
+      config.typesImportPath,
+      config.apiPrefix,
+      config.naming,
+      config.cookieName
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    warnings.push(`Failed to copy ${getOpenApiComposableName(config.naming)}.ts: ${errorMessage}`)
+  }
+
+  if (config.queries === 'vue-query') {
+    const vueQueryFile = `${getVueQueryComposableName(config.naming)}.ts`
+    try {
+      files[join(config.outputDir, vueQueryFile)] = renderUseOpenApiVueQuery(config.naming)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      warnings.push(`Failed to copy ${vueQueryFile}: ${errorMessage}`)
+    }
+  }
+
+  const { composables, contents } = renderComposableFiles(resources, filteredSchema, config)
+  for (const [fileName, content] of Object.entries(contents)) {
+    files[join(config.outputDir, fileName)] = content
+  }
+
+  if (config.generateTypes && config.typesOutputPath) {
+    files[config.typesOutputPath] = await renderTypes(filteredSchema)
+  }
+
+  return {
+    files,
+    resources: Array.from(resources),
+    composables,
+    filteredOperations,
+    warnings
+  }
+}
@@ -1,4 +1,12 @@
-import type { OpenAPISchema, PathItem, Operation } from './types'
+import type {
+  OpenAPISchema,
+  PathItem,
+  Operation,
+  GroupingConfig,
+  SecurityScheme,
+  SecurityCredential,
+  OperationSecurity
+} from './types'
 import { getResourceName } from './naming'
 
 /**
@@ -49,15 +57,81 @@ export function getContentType(
   return 'application/json' // Default to JSON
 }
 
+/**
+ * Get the operationId of a path and method, if the schema declares one
+ */
+export function getOperationId(
+  path: string,
+  method: string,
+  schema: OpenAPISchema
+): string | undefined {
+  const operation = schema.paths[path]?.[method as keyof PathItem] as Operation | undefined
+  return operation?.operationId
+}
+
+/**
+ * Get how the runtime sends the credential of a security scheme, if it can
+ */
+function getSecurityCredential(scheme: SecurityScheme): SecurityCredential | undefined {
+  switch (scheme.type) {
+    case 'http': {
+      const name = (scheme.scheme || '').toLowerCase()
+      if (!name) return undefined
+      return name === 'bearer' ? { type: 'bearer' } : { type: 'http', scheme: name }
+    }
+    case 'oauth2':
+    case 'openIdConnect':
+      return { type: 'bearer' }
+    case 'apiKey':
+      return scheme.name && scheme.in ? { type: 'apiKey', in: scheme.in, name: scheme.name } : undefined
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Get the security requirements of a path and method: the operation's `security`, or the
+ * schema's when the operation declares none
+ * Returns an empty list for public operations (`security: []`) and undefined when the schema
+ * declares no security; requirements with undeclared or unsupported schemes are skipped
+ * Example: [{ bearerAuth: { type: 'bearer' } }, { apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' } }]
+ */
+export function getSecurity(
+  path: string,
+  method: string,
+  schema: OpenAPISchema
+): OperationSecurity[] | undefined {
+  const operation = schema.paths[path]?.[method as keyof PathItem] as Operation | undefined
+  const requirements = operation?.security ?? schema.security
+  if (!requirements) return undefined
+  if (requirements.length === 0) return []
+
+  const schemes = schema.components?.securitySchemes || {}
+  const security = requirements.flatMap((requirement) => {
+    const credentials = Object.keys(requirement).map(name => {
+      const scheme = schemes[name]
+      const credential = scheme && getSecurityCredential(scheme)
+      return credential && ([name, credential] as const)
+    })
+    return credentials.every(Boolean) ? [Object.fromEntries(credentials as Array<[string, SecurityCredential]>)] : []
+  })
+
+  // Without a usable requirement, the operation keeps the default auth token
+  return security.length > 0 ? security : undefined
+}
+
 /**
  * Extract all unique resources from OpenAPI paths
  */
-export function extractResources(schema: OpenAPISchema): Set<string> {
+export function extractResources(
+  schema: OpenAPISchema,
+  grouping: GroupingConfig = {}
+): Set<string> {
   const resources = new Set<string>()
   const paths = schema.paths || {}
 
   Object.entries(paths).forEach(([path]) => {
-    const resource = getResourceName(path, schema)
+    const resource = getResourceName(path, schema, grouping)
     if (resource) resources.add(resource)
   })
 
@@ -69,13 +143,14 @@ export function extractResources(schema: OpenAPISchema): Set<string> {
  */
 export function getResourcePaths(
   resourceName: string,
-  schema: OpenAPISchema
+  schema: OpenAPISchema,
+  grouping: GroupingConfig = {}
 ): Array<{ path: string; pathItem: PathItem }> {
   const paths = schema.paths || {}
 
   return Object.entries(paths)
     .filter(([path]) => {
-      const pathResourceName = getResourceName(path, schema)
+      const pathResourceName = getResourceName(path, schema, grouping)
       return pathResourceName === resourceName
     })
     .sort(([a], [b]) => a.localeCompare(b))
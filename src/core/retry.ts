@@ -0,0 +1,64 @@
+import type { OpenAPISchema, PathItem, Operation, RetryPolicy } from './types'
+import { getExtension } from './filter'
+
+const NUMBER_FIELDS = ['attempts', 'delay', 'maxDelay'] as const
+
+/**
+ * Read a retry policy from an `x-retry` value, keeping the fields of the expected types
+ * Example: { attempts: 3, statusCodes: [503], note: 'x' } -> { attempts: 3, statusCodes: [503] }
+ */
+function toRetryPolicy(value: unknown): RetryPolicy | false | undefined {
+  if (value === false) return false
+  if (!value || typeof value !== 'object') return undefined
+
+  const source = value as Record<string, unknown>
+  const policy: RetryPolicy = {}
+  for (const field of NUMBER_FIELDS) {
+    const fieldValue = source[field]
+    if (typeof fieldValue === 'number' && fieldValue >= 0) policy[field] = fieldValue
+  }
+  if (typeof source.jitter === 'boolean') policy.jitter = source.jitter
+  if (Array.isArray(source.statusCodes) && source.statusCodes.every(code => typeof code === 'number')) {
+    policy.statusCodes = source.statusCodes
+  }
+  if (Array.isArray(source.methods) && source.methods.every(method => typeof method === 'string')) {
+    policy.methods = source.methods.map(method => method.toUpperCase())
+  }
+  return policy
+}
+
+/**
+ * Get the retry policy of an operation: its `x-retry` extension (or its path item's) over the
+ * policy of its resource; false disables retries
+ * Example: ({ attempts: 4 }, x-retry: { statusCodes: [503] }) -> { attempts: 4, statusCodes: [503] }
+ */
+export function getRetryPolicy(
+  path: string,
+  method: string,
+  schema: OpenAPISchema,
+  resourcePolicy?: RetryPolicy | false
+): RetryPolicy | false | undefined {
+  const pathItem = schema.paths[path]
+  const operation = pathItem?.[method as keyof PathItem] as Operation | undefined
+  const operationPolicy = pathItem && operation ? toRetryPolicy(getExtension(pathItem, operation, 'x-retry')) : undefined
+
+  if (operationPolicy === undefined) return resourcePolicy
+  if (operationPolicy === false || !resourcePolicy) return operationPolicy
+  return { ...resourcePolicy, ...operationPolicy }
+}
+
+/**
+ * Format a retry policy as the `retry` option of createApiMethod
+ * Example: { attempts: 3, methods: ['GET'] } -> "{ attempts: 3, methods: ['GET'] }"
+ */
+export function formatRetryPolicy(policy: RetryPolicy | false): string {
+  if (policy === false) return 'false'
+
+  const fields = Object.entries(policy).map(([field, value]) => {
+    const formatted = Array.isArray(value)
+      ? `[${value.map(item => (typeof item === 'string' ? `'${item.replace(/[\\']/g, '\\$&')}'` : String(item))).join(', ')}]`
+      : String(value)
+    return `${field}: ${formatted}`
+  })
+  return fields.length > 0 ? `{ ${fields.join(', ')} }` : '{}'
+}
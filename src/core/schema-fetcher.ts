@@ -0,0 +1,192 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { createHash } from 'node:crypto'
+import { consola } from 'consola'
+import { parseSchemaDocument } from './schema-loader'
+
+/**
+ * Options for fetching a schema from a URL
+ */
+export interface SchemaFetchOptions {
+  /** Extra request headers (e.g. { Authorization: 'Bearer ...' }) */
+  headers?: Record<string, string>
+  /** Directory for cached schema documents (default: 'node_modules/.cache/nuxt-openapi-composables') */
+  cacheDir?: string
+  /** Request timeout in milliseconds (default: 30000) */
+  timeout?: number
+}
+
+/**
+ * Result of fetching a schema from a URL
+ */
+export interface FetchedSchema {
+  content: string
+  /** SHA-256 of the schema content */
+  hash: string
+  /** Where the content came from */
+  source: 'network' | 'not-modified' | 'cache'
+}
+
+/**
+ * Metadata stored next to a cached schema document
+ */
+interface SchemaCacheEntry {
+  url: string
+  etag?: string
+  lastModified?: string
+  hash: string
+  fetchedAt: string
+}
+
+const DEFAULT_CACHE_DIR = 'node_modules/.cache/nuxt-openapi-composables'
+const DEFAULT_TIMEOUT = 30000
+
+/**
+ * Check whether a schema source is an http(s) URL
+ */
+export function isSchemaUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source)
+}
+
+/**
+ * Hash schema content for change detection
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Get the cache file paths for a URL
+ */
+function getCachePaths(url: string, cacheDir: string): { meta: string; content: string } {
+  const key = hashContent(url).slice(0, 16)
+  return {
+    meta: join(cacheDir, `${key}.meta.json`),
+    content: join(cacheDir, `${key}.schema`)
+  }
+}
+
+/**
+ * Read a cached schema, if present and intact
+ */
+function readCache(url: string, cacheDir: string): { entry: SchemaCacheEntry; content: string } | null {
+  const paths = getCachePaths(url, cacheDir)
+  if (!existsSync(paths.meta) || !existsSync(paths.content)) return null
+
+  try {
+    const entry: SchemaCacheEntry = JSON.parse(readFileSync(paths.meta, 'utf-8'))
+    const content = readFileSync(paths.content, 'utf-8')
+    if (entry.url !== url || hashContent(content) !== entry.hash) return null
+    return { entry, content }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Write a fetched schema to the cache
+ */
+function writeCache(cacheDir: string, entry: SchemaCacheEntry, content: string): void {
+  const paths = getCachePaths(entry.url, cacheDir)
+  if (!existsSync(cacheDir)) {
+    mkdirSync(cacheDir, { recursive: true })
+  }
+  writeFileSync(paths.content, content, 'utf-8')
+  writeFileSync(paths.meta, JSON.stringify(entry, null, 2), 'utf-8')
+}
+
+/**
+ * Check that fetched content is an OpenAPI/Swagger document before it replaces the cached copy
+ * (servers may answer 200 with a login page, an error page or a truncated body)
+ */
+function assertSchemaContent(url: string, content: string): void {
+  let document: unknown
+  try {
+    document = parseSchemaDocument(content, new URL(url).pathname)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to fetch OpenAPI schema from ${url}: ${message}`)
+  }
+
+  const { openapi, swagger } = (document && typeof document === 'object' ? document : {}) as {
+    openapi?: unknown
+    swagger?: unknown
+  }
+  if (typeof openapi !== 'string' && typeof swagger !== 'string') {
+    throw new Error(
+      `Failed to fetch OpenAPI schema from ${url}: the response is not an OpenAPI or Swagger document`
+    )
+  }
+}
+
+/**
+ * Fetch a schema document from a URL
+ * - Sends If-None-Match / If-Modified-Since when a cached copy exists
+ * - Caches the document on disk with its ETag and content hash, once it parses as a schema
+ * - Falls back to the cached copy when the server is unreachable
+ */
+export async function fetchSchema(
+  url: string,
+  options: SchemaFetchOptions = {}
+): Promise<FetchedSchema> {
+  const cacheDir = resolve(process.cwd(), options.cacheDir || DEFAULT_CACHE_DIR)
+  const cached = readCache(url, cacheDir)
+
+  const headers: Record<string, string> = {
+    Accept: 'application/json, application/yaml, text/yaml, */*',
+    ...options.headers
+  }
+  if (cached?.entry.etag) headers['If-None-Match'] = cached.entry.etag
+  if (cached?.entry.lastModified) headers['If-Modified-Since'] = cached.entry.lastModified
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(options.timeout ?? DEFAULT_TIMEOUT)
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (cached) {
+      consola.warn(`Could not reach ${url} (${message}), using cached schema from ${cached.entry.fetchedAt}`)
+      return { content: cached.content, hash: cached.entry.hash, source: 'cache' }
+    }
+    throw new Error(`Failed to fetch OpenAPI schema from ${url}: ${message}`)
+  }
+
+  if (response.status === 304 && cached) {
+    consola.info(`Schema at ${url} not modified, using cached copy`)
+    return { content: cached.content, hash: cached.entry.hash, source: 'not-modified' }
+  }
+
+  if (!response.ok) {
+    // Server errors behave like an unreachable server, client errors (auth, 404) don't
+    if (response.status >= 500 && cached) {
+      consola.warn(
+        `Schema server responded with ${response.status}, using cached schema from ${cached.entry.fetchedAt}`
+      )
+      return { content: cached.content, hash: cached.entry.hash, source: 'cache' }
+    }
+    throw new Error(
+      `Failed to fetch OpenAPI schema from ${url}: ${response.status} ${response.statusText}`
+    )
+  }
+
+  const content = await response.text()
+  assertSchemaContent(url, content)
+  const hash = hashContent(content)
+
+  writeCache(
+    cacheDir,
+    {
+      url,
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+      hash,
+      fetchedAt: new Date().toISOString()
+    },
+    content
+  )
+
+  return { content, hash, source: 'network' }
+}
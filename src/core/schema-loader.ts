@@ -0,0 +1,330 @@
+import { readFileSync, existsSync } from 'node:fs'
+import { resolve, dirname, extname } from 'node:path'
+import { parse as parseYaml } from 'yaml'
+import { consola } from 'consola'
+import type { OpenAPISchema } from './types'
+import { isSwagger2, convertSwagger2 } from './swagger-converter'
+import { isSchemaUrl, fetchSchema } from './schema-fetcher'
+import type { SchemaFetchOptions } from './schema-fetcher'
+
+/**
+ * Supported schema document formats
+ */
+export type SchemaFormat = 'json' | 'yaml'
+
+/**
+ * Component sections that external refs get hoisted into (instead of inlined)
+ * Example: './schemas.yaml#/components/schemas/Task' -> '#/components/schemas/Task'
+ */
+const COMPONENT_POINTER = /^\/components\/(schemas|parameters|responses|requestBodies|headers|examples|securitySchemes)\/([^/]+)$/
+
+/**
+ * Refs to remote documents are left untouched by the file bundler
+ */
+const REMOTE_REF = /^[a-z][a-z0-9+.-]*:\/\//i
+
+interface BundleContext {
+  rootFile: string
+  rootComponents: Record<string, Record<string, unknown>>
+  documents: Map<string, unknown>
+  hoisted: Map<string, string>
+  components: Record<string, Record<string, unknown>>
+  inlineStack: string[]
+}
+
+/**
+ * Detect whether a schema document is JSON or YAML
+ * Uses the file extension first and falls back to sniffing the content
+ */
+export function detectSchemaFormat(source: string, content: string): SchemaFormat {
+  const extension = extname(source).toLowerCase()
+  if (extension === '.yaml' || extension === '.yml') return 'yaml'
+  if (extension === '.json') return 'json'
+
+  const trimmed = content.trimStart()
+  return trimmed.startsWith('{') || trimmed.startsWith('[') ? 'json' : 'yaml'
+}
+
+/**
+ * Parse a JSON or YAML schema document
+ */
+export function parseSchemaDocument(content: string, source: string): unknown {
+  const format = detectSchemaFormat(source, content)
+
+  try {
+    return format === 'yaml' ? parseYaml(content) : JSON.parse(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to parse ${source} as ${format.toUpperCase()}: ${message}`)
+  }
+}
+
+/**
+ * Decode a JSON pointer fragment into its path segments
+ */
+function parsePointer(pointer: string): string[] {
+  if (!pointer || pointer === '/') return []
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Escape a single JSON pointer segment
+ */
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Read and parse a referenced document (cached per file)
+ */
+function readDocument(filePath: string, ctx: BundleContext): unknown {
+  const cached = ctx.documents.get(filePath)
+  if (cached !== undefined) return cached
+
+  if (!existsSync(filePath)) {
+    throw new Error(`Referenced schema file not found at ${filePath}`)
+  }
+
+  const document = parseSchemaDocument(readFileSync(filePath, 'utf-8'), filePath)
+  ctx.documents.set(filePath, document)
+  return document
+}
+
+/**
+ * Resolve a JSON pointer inside a parsed document
+ */
+function resolvePointer(document: unknown, pointer: string, ref: string, fromFile: string): unknown {
+  let current: unknown = document
+  for (const segment of parsePointer(pointer)) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      throw new Error(`Unable to resolve $ref "${ref}" in ${fromFile}`)
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+/**
+ * Pick a component name that doesn't collide with root or already hoisted components
+ */
+function uniqueComponentName(section: string, name: string, ctx: BundleContext): string {
+  const isTaken = (candidate: string) =>
+    candidate in (ctx.rootComponents[section] || {}) || candidate in (ctx.components[section] || {})
+
+  let candidate = name
+  let counter = 2
+  while (isTaken(candidate)) {
+    candidate = `${name}${counter}`
+    counter++
+  }
+  return candidate
+}
+
+/**
+ * Replace a $ref node with a bundled equivalent
+ * - Local refs in the root document are kept as-is
+ * - Refs to components in other files are hoisted into the root components
+ * - Any other external ref is inlined
+ */
+function bundleRef(node: Record<string, unknown>, file: string, ctx: BundleContext): unknown {
+  const ref = node.$ref as string
+  const { $ref: _ref, ...siblings } = node
+  const bundledSiblings = bundleNode(siblings, file, ctx) as Record<string, unknown>
+
+  if (REMOTE_REF.test(ref)) return { ...node }
+
+  const hashIndex = ref.indexOf('#')
+  const refPath = hashIndex === -1 ? ref : ref.slice(0, hashIndex)
+  const pointer = hashIndex === -1 ? '' : ref.slice(hashIndex + 1)
+  const targetFile = refPath ? resolve(dirname(file), decodeURIComponent(refPath)) : file
+
+  // Anything pointing back into the root document stays a local ref
+  if (targetFile === ctx.rootFile) {
+    return { ...bundledSiblings, $ref: `#${pointer}` }
+  }
+
+  const key = `${targetFile}#${pointer}`
+  const component = pointer.match(COMPONENT_POINTER)
+
+  if (component) {
+    const existing = ctx.hoisted.get(key)
+    if (existing) return { ...bundledSiblings, $ref: existing }
+
+    const section = component[1]
+    const name = uniqueComponentName(section, parsePointer(pointer)[2], ctx)
+    const localRef = `#/components/${section}/${escapePointerSegment(name)}`
+
+    // Register before walking the target so recursive components resolve to the local ref
+    ctx.hoisted.set(key, localRef)
+    ctx.components[section] = ctx.components[section] || {}
+    ctx.components[section][name] = {}
+
+    const target = resolvePointer(readDocument(targetFile, ctx), pointer, ref, file)
+    ctx.components[section][name] = bundleNode(target, targetFile, ctx)
+
+    return { ...bundledSiblings, $ref: localRef }
+  }
+
+  if (ctx.inlineStack.includes(key)) {
+    throw new Error(
+      `Circular $ref "${ref}" in ${file} cannot be inlined. ` +
+        'Reference it through a components section (e.g. "#/components/schemas/Name") instead.'
+    )
+  }
+
+  ctx.inlineStack.push(key)
+  const target = resolvePointer(readDocument(targetFile, ctx), pointer, ref, file)
+  const inlined = bundleNode(target, targetFile, ctx)
+  ctx.inlineStack.pop()
+
+  if (inlined && typeof inlined === 'object' && !Array.isArray(inlined)) {
+    return { ...inlined, ...bundledSiblings }
+  }
+  return inlined
+}
+
+/**
+ * Recursively copy a node, resolving every $ref relative to the file it was read from
+ */
+function bundleNode(node: unknown, file: string, ctx: BundleContext): unknown {
+  if (Array.isArray(node)) {
+    return node.map(item => bundleNode(item, file, ctx))
+  }
+
+  if (node && typeof node === 'object') {
+    const record = node as Record<string, unknown>
+    if (typeof record.$ref === 'string') {
+      return bundleRef(record, file, ctx)
+    }
+
+    const result: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(record)) {
+      result[key] = bundleNode(value, file, ctx)
+    }
+    return result
+  }
+
+  return node
+}
+
+/**
+ * Bundle external file $refs into a single in-memory document
+ */
+export function bundleSchema(document: unknown, sourcePath: string): OpenAPISchema {
+  const rootFile = resolve(sourcePath)
+  const rootComponents = ((document as OpenAPISchema)?.components || {}) as Record<
+    string,
+    Record<string, unknown>
+  >
+
+  const ctx: BundleContext = {
+    rootFile,
+    rootComponents,
+    documents: new Map([[rootFile, document]]),
+    hoisted: new Map(),
+    components: {},
+    inlineStack: []
+  }
+
+  const bundled = bundleNode(document, rootFile, ctx) as OpenAPISchema & {
+    components?: Record<string, Record<string, unknown>>
+  }
+
+  const sections = Object.keys(ctx.components)
+  if (sections.length > 0) {
+    const components = (bundled.components || {}) as Record<string, Record<string, unknown>>
+    for (const section of sections) {
+      components[section] = { ...(components[section] || {}), ...ctx.components[section] }
+    }
+    bundled.components = components
+  }
+
+  return bundled
+}
+
+/**
+ * List the local files a schema is built from: the root document and every file it references
+ * Files that can't be read or parsed are still listed (but not followed), so they can be watched
+ */
+export function getSchemaFiles(source: string): string[] {
+  if (isSchemaUrl(source)) return []
+
+  const files = new Set<string>()
+
+  const collectRefs = (node: unknown, file: string): void => {
+    if (Array.isArray(node)) {
+      node.forEach(item => collectRefs(item, file))
+      return
+    }
+    if (!node || typeof node !== 'object') return
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$ref' && typeof value === 'string' && !REMOTE_REF.test(value)) {
+        const refPath = value.split('#')[0]
+        if (refPath) visit(resolve(dirname(file), decodeURIComponent(refPath)))
+      } else {
+        collectRefs(value, file)
+      }
+    }
+  }
+
+  const visit = (file: string): void => {
+    if (files.has(file)) return
+    files.add(file)
+
+    try {
+      collectRefs(parseSchemaDocument(readFileSync(file, 'utf-8'), file), file)
+    } catch {
+      // Missing or broken files are watched until they become valid
+    }
+  }
+
+  visit(resolve(source))
+  return Array.from(files)
+}
+
+/**
+ * Read and parse the root schema document from a file or URL
+ */
+async function readRootDocument(source: string, options: SchemaFetchOptions): Promise<unknown> {
+  if (isSchemaUrl(source)) {
+    const { content } = await fetchSchema(source, options)
+    return parseSchemaDocument(content, new URL(source).pathname)
+  }
+
+  if (!existsSync(source)) {
+    throw new Error(`OpenAPI schema file not found at ${source}`)
+  }
+
+  return parseSchemaDocument(readFileSync(source, 'utf-8'), source)
+}
+
+/**
+ * Load an OpenAPI schema from a JSON or YAML file or URL
+ * - External file refs of local schemas are bundled (remote schemas must be self-contained)
+ * - Swagger 2.0 documents are upconverted to OpenAPI 3
+ */
+export async function loadSchema(
+  source: string,
+  options: SchemaFetchOptions = {}
+): Promise<OpenAPISchema> {
+  const document = await readRootDocument(source, options)
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error(`Invalid OpenAPI schema: ${source} does not contain an object`)
+  }
+
+  const bundled = isSchemaUrl(source)
+    ? (document as OpenAPISchema)
+    : bundleSchema(document, source)
+
+  if (isSwagger2(bundled)) {
+    consola.info('Converting Swagger 2.0 schema to OpenAPI 3')
+    return convertSwagger2(bundled)
+  }
+
+  return bundled
+}
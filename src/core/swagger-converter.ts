@@ -0,0 +1,457 @@
+import type {
+  OpenAPISchema,
+  Swagger2Schema,
+  PathItem,
+  Operation,
+  Parameter,
+  RequestBody,
+  Response,
+  Header,
+  SchemaObject,
+  SecurityScheme,
+  OAuthFlow
+} from './types'
+
+/**
+ * OpenAPI version assigned to upconverted Swagger 2.0 documents
+ */
+export const CONVERTED_OPENAPI_VERSION = '3.0.3'
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch']
+
+/**
+ * Keywords that move from a Swagger 2.0 parameter/header into its `schema`
+ */
+const PARAMETER_SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'enum',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'multipleOf'
+]
+
+/**
+ * Operation fields copied verbatim (vendor extensions are copied as well)
+ */
+const OPERATION_FIELDS = [
+  'operationId',
+  'summary',
+  'description',
+  'tags',
+  'deprecated',
+  'security',
+  'externalDocs'
+]
+
+/**
+ * Swagger 2.0 collectionFormat -> OpenAPI 3 style/explode
+ */
+const COLLECTION_FORMATS: Record<string, Pick<Parameter, 'style' | 'explode'>> = {
+  csv: { style: 'form', explode: false },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+  multi: { style: 'form', explode: true }
+}
+
+type SwaggerNode = Record<string, unknown>
+
+/**
+ * Check whether a parsed document is a Swagger 2.0 document
+ */
+export function isSwagger2(document: unknown): document is Swagger2Schema {
+  const swagger = (document as SwaggerNode | null)?.swagger
+  return typeof swagger === 'string' && swagger.startsWith('2.')
+}
+
+/**
+ * Copy vendor extensions (x-*) from one object to another
+ */
+function copyExtensions(source: object, target: object): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (key.startsWith('x-')) (target as SwaggerNode)[key] = value
+  }
+}
+
+/**
+ * Convert a Swagger 2.0 schema object
+ * - '#/definitions/X' refs -> '#/components/schemas/X'
+ * - 'x-nullable' -> 'nullable'
+ * - 'type: file' -> binary string
+ */
+function convertSchema(schema: unknown): SchemaObject {
+  if (Array.isArray(schema)) {
+    return schema.map(item => convertSchema(item)) as unknown as SchemaObject
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema as SchemaObject
+  }
+
+  const result: SwaggerNode = {}
+  for (const [key, value] of Object.entries(schema as SwaggerNode)) {
+    if (key === '$ref' && typeof value === 'string') {
+      result.$ref = value.replace(/^#\/definitions\//, '#/components/schemas/')
+    } else if (key === 'x-nullable') {
+      result.nullable = value
+    } else if (key === 'type' && value === 'file') {
+      result.type = 'string'
+      result.format = 'binary'
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as SwaggerNode).map(([name, property]) => [name, convertSchema(property)])
+      )
+    } else if (
+      ['items', 'allOf', 'anyOf', 'oneOf', 'not', 'additionalProperties'].includes(key) &&
+      value &&
+      typeof value === 'object'
+    ) {
+      result[key] = convertSchema(value)
+    } else {
+      result[key] = value
+    }
+  }
+  return result as SchemaObject
+}
+
+/**
+ * Build a schema from a non-body Swagger 2.0 parameter or header
+ */
+function schemaFromParameter(parameter: SwaggerNode): SchemaObject {
+  const schema: SwaggerNode = {}
+  for (const keyword of PARAMETER_SCHEMA_KEYWORDS) {
+    if (parameter[keyword] !== undefined) {
+      schema[keyword] =
+        keyword === 'items' ? schemaFromParameter(parameter.items as SwaggerNode) : parameter[keyword]
+    }
+  }
+  return convertSchema(schema)
+}
+
+/**
+ * Resolve a '#/parameters/X' reference against the document's global parameters
+ */
+function resolveParameter(parameter: SwaggerNode, document: Swagger2Schema): SwaggerNode {
+  const ref = parameter.$ref
+  if (typeof ref !== 'string') return parameter
+
+  const name = ref.replace(/^#\/parameters\//, '')
+  const resolved = document.parameters?.[name]
+  if (!resolved) {
+    throw new Error(`Unable to resolve Swagger 2.0 parameter reference "${ref}"`)
+  }
+  return resolved
+}
+
+/**
+ * Resolve a '#/responses/X' reference against the document's global responses
+ */
+function resolveResponse(response: SwaggerNode, document: Swagger2Schema): SwaggerNode {
+  const ref = response.$ref
+  if (typeof ref !== 'string') return response
+
+  const name = ref.replace(/^#\/responses\//, '')
+  const resolved = document.responses?.[name]
+  if (!resolved) {
+    throw new Error(`Unable to resolve Swagger 2.0 response reference "${ref}"`)
+  }
+  return resolved
+}
+
+/**
+ * Convert a query/header/path/cookie parameter
+ */
+function convertParameter(parameter: SwaggerNode): Parameter {
+  const result: Parameter = {
+    name: parameter.name as string,
+    in: parameter.in as Parameter['in'],
+    schema: schemaFromParameter(parameter)
+  }
+  if (parameter.description) result.description = parameter.description as string
+  if (parameter.required !== undefined) result.required = parameter.required as boolean
+
+  const collectionFormat = COLLECTION_FORMATS[parameter.collectionFormat as string]
+  if (parameter.type === 'array' && collectionFormat) {
+    Object.assign(result, collectionFormat)
+  }
+
+  copyExtensions(parameter, result)
+  return result
+}
+
+/**
+ * Convert an `in: body` parameter into a request body
+ */
+function convertBodyParameter(parameter: SwaggerNode, consumes: string[]): RequestBody {
+  const schema = convertSchema(parameter.schema)
+  const requestBody: RequestBody = {
+    content: Object.fromEntries(consumes.map(contentType => [contentType, { schema }]))
+  }
+  if (parameter.description) requestBody.description = parameter.description as string
+  if (parameter.required !== undefined) requestBody.required = parameter.required as boolean
+  return requestBody
+}
+
+/**
+ * Convert `in: formData` parameters into a form request body
+ */
+function convertFormDataParameters(parameters: SwaggerNode[], consumes: string[]): RequestBody {
+  const hasFile = parameters.some(parameter => parameter.type === 'file')
+  const contentType =
+    consumes.find(
+      type => type === 'multipart/form-data' || type === 'application/x-www-form-urlencoded'
+    ) || (hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded')
+
+  const properties: Record<string, SchemaObject> = {}
+  const required: string[] = []
+  for (const parameter of parameters) {
+    const name = parameter.name as string
+    const property = schemaFromParameter(parameter) as SwaggerNode
+    if (parameter.description) property.description = parameter.description
+    properties[name] = property
+    if (parameter.required) required.push(name)
+  }
+
+  const schema: SchemaObject = { type: 'object', properties }
+  if (required.length > 0) schema.required = required
+
+  return {
+    content: { [contentType]: { schema } },
+    required: required.length > 0
+  }
+}
+
+/**
+ * Convert a response header
+ */
+function convertHeader(header: SwaggerNode): Header {
+  const result: Header = { schema: schemaFromParameter(header) }
+  if (header.description) result.description = header.description as string
+  return result
+}
+
+/**
+ * Convert a response, using `produces` for the response content types
+ */
+function convertResponse(response: SwaggerNode, produces: string[]): Response {
+  const result: Response = { description: (response.description as string | undefined) || '' }
+
+  if (response.schema) {
+    const schema = convertSchema(response.schema)
+    result.content = Object.fromEntries(
+      produces.map(contentType => {
+        const example = (response.examples as SwaggerNode | undefined)?.[contentType]
+        return [contentType, example === undefined ? { schema } : { schema, example }]
+      })
+    )
+  }
+
+  if (response.headers) {
+    result.headers = Object.fromEntries(
+      Object.entries(response.headers as SwaggerNode).map(([name, header]) => [
+        name,
+        convertHeader(header as SwaggerNode)
+      ])
+    )
+  }
+
+  copyExtensions(response, result)
+  return result
+}
+
+/**
+ * Merge path-level and operation-level parameters (operation wins on name + location)
+ */
+function mergeParameters(pathParameters: SwaggerNode[], operationParameters: SwaggerNode[]): SwaggerNode[] {
+  const merged = new Map<string, SwaggerNode>()
+  for (const parameter of [...pathParameters, ...operationParameters]) {
+    merged.set(`${parameter.in}:${parameter.name}`, parameter)
+  }
+  return Array.from(merged.values())
+}
+
+/**
+ * Convert a single operation
+ */
+function convertOperation(
+  operation: SwaggerNode,
+  pathParameters: SwaggerNode[],
+  document: Swagger2Schema
+): Operation {
+  const consumes = (operation.consumes as string[] | undefined) || document.consumes || ['application/json']
+  const produces = (operation.produces as string[] | undefined) || document.produces || ['application/json']
+
+  const result: SwaggerNode = {}
+  for (const field of OPERATION_FIELDS) {
+    if (operation[field] !== undefined) result[field] = operation[field]
+  }
+  copyExtensions(operation, result)
+
+  const operationParameters = ((operation.parameters as SwaggerNode[] | undefined) || []).map(parameter =>
+    resolveParameter(parameter, document)
+  )
+  const parameters: Parameter[] = []
+  const formData: SwaggerNode[] = []
+
+  for (const parameter of mergeParameters(pathParameters, operationParameters)) {
+    if (parameter.in === 'body') {
+      result.requestBody = convertBodyParameter(parameter, consumes)
+    } else if (parameter.in === 'formData') {
+      formData.push(parameter)
+    } else {
+      parameters.push(convertParameter(parameter))
+    }
+  }
+
+  if (formData.length > 0) {
+    result.requestBody = convertFormDataParameters(formData, consumes)
+  }
+  if (parameters.length > 0) {
+    result.parameters = parameters
+  }
+
+  if (operation.responses) {
+    result.responses = Object.fromEntries(
+      Object.entries(operation.responses as SwaggerNode).map(([status, response]) => [
+        status,
+        convertResponse(resolveResponse(response as SwaggerNode, document), produces)
+      ])
+    )
+  }
+
+  return result as Operation
+}
+
+/**
+ * Convert a path item
+ * Path-level body/formData parameters are pushed down into each operation,
+ * the remaining path-level parameters stay on the path item.
+ */
+function convertPathItem(pathItem: SwaggerNode, document: Swagger2Schema): PathItem {
+  const pathParameters = ((pathItem.parameters as SwaggerNode[] | undefined) || []).map(parameter =>
+    resolveParameter(parameter, document)
+  )
+  const operationLevel = pathParameters.filter(
+    parameter => parameter.in === 'body' || parameter.in === 'formData'
+  )
+  const pathLevel = pathParameters.filter(parameter => !operationLevel.includes(parameter))
+
+  const result: SwaggerNode = {}
+  for (const method of HTTP_METHODS) {
+    if (pathItem[method]) {
+      result[method] = convertOperation(pathItem[method] as SwaggerNode, operationLevel, document)
+    }
+  }
+  if (pathLevel.length > 0) {
+    result.parameters = pathLevel.map(parameter => convertParameter(parameter))
+  }
+  copyExtensions(pathItem, result)
+
+  return result as PathItem
+}
+
+/**
+ * Convert Swagger 2.0 security definitions to OpenAPI 3 security schemes
+ */
+function convertSecurityDefinition(definition: SwaggerNode): SecurityScheme {
+  const base: Pick<SecurityScheme, 'description'> = definition.description
+    ? { description: definition.description as string }
+    : {}
+
+  switch (definition.type) {
+    case 'basic':
+      return { ...base, type: 'http', scheme: 'basic' }
+    case 'apiKey':
+      return {
+        ...base,
+        type: 'apiKey',
+        name: definition.name as string,
+        in: definition.in as SecurityScheme['in']
+      }
+    case 'oauth2': {
+      const flowNames: Record<string, string> = {
+        implicit: 'implicit',
+        password: 'password',
+        application: 'clientCredentials',
+        accessCode: 'authorizationCode'
+      }
+      const flow: OAuthFlow = { scopes: (definition.scopes as Record<string, string> | undefined) || {} }
+      if (definition.authorizationUrl) flow.authorizationUrl = definition.authorizationUrl as string
+      if (definition.tokenUrl) flow.tokenUrl = definition.tokenUrl as string
+      const flowName = definition.flow as string
+      return { ...base, type: 'oauth2', flows: { [flowNames[flowName] || flowName]: flow } }
+    }
+    default:
+      return { ...base, type: definition.type as SecurityScheme['type'] }
+  }
+}
+
+/**
+ * Build OpenAPI 3 servers from host, basePath and schemes
+ */
+function convertServers(document: Swagger2Schema): OpenAPISchema['servers'] {
+  if (!document.host) {
+    return document.basePath ? [{ url: document.basePath }] : undefined
+  }
+
+  const schemes = document.schemes?.length ? document.schemes : ['https']
+  return schemes.map(scheme => ({ url: `${scheme}://${document.host}${document.basePath || ''}` }))
+}
+
+/**
+ * Upconvert a Swagger 2.0 document to the OpenAPI 3 shape used by the generator
+ * Examples:
+ * - `in: body` parameters -> requestBody (content types from consumes)
+ * - response schemas -> response content (content types from produces)
+ * - definitions -> components.schemas
+ */
+export function convertSwagger2(document: Swagger2Schema): OpenAPISchema {
+  const schema: OpenAPISchema = {
+    openapi: CONVERTED_OPENAPI_VERSION,
+    info: document.info,
+    paths: Object.fromEntries(
+      Object.entries(document.paths || {}).map(([path, pathItem]) => [
+        path,
+        convertPathItem(pathItem, document)
+      ])
+    )
+  }
+
+  const servers = convertServers(document)
+  if (servers) schema.servers = servers
+
+  if (document.definitions || document.securityDefinitions) {
+    schema.components = {}
+  }
+  if (document.definitions) {
+    schema.components!.schemas = Object.fromEntries(
+      Object.entries(document.definitions).map(([name, definition]) => [
+        name,
+        convertSchema(definition)
+      ])
+    )
+  }
+  if (document.securityDefinitions) {
+    schema.components!.securitySchemes = Object.fromEntries(
+      Object.entries(document.securityDefinitions).map(([name, definition]) => [
+        name,
+        convertSecurityDefinition(definition)
+      ])
+    )
+  }
+
+  if (document.security) schema.security = document.security
+  if (document.tags) schema.tags = document.tags
+  copyExtensions(document, schema)
+
+  return schema
+}
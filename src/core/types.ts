@@ -2,8 +2,12 @@
  * Configuration options for the composables generator
  */
 export interface GeneratorConfig {
-  /** Path to the OpenAPI schema file */
+  /** Path or http(s) URL of the OpenAPI schema (JSON or YAML, external file $refs are bundled) */
   schemaPath: string
+  /** Extra headers sent when schemaPath is a URL (e.g. { Authorization: 'Bearer ...' }) */
+  schemaHeaders?: Record<string, string>
+  /** Cache directory for schemas fetched from a URL (default: 'node_modules/.cache/nuxt-openapi-composables') */
+  schemaCacheDir?: string
   /** Output directory for generated composables */
   outputDir: string
   /** Cookie name for authentication token (default: 'authToken') */
@@ -20,8 +24,257 @@ export interface GeneratorConfig {
   typesImportPath?: string
   /** Default API path prefix (e.g., '/api/symfony', can be overridden at runtime) */
   apiPrefix?: string
+  /** Lowest schema diagnostic severity that fails generation (default: 'error') */
+  validationFailOn?: DiagnosticSeverity | 'never'
+  /** Method naming options */
+  naming?: NamingConfig
+  /** How paths are grouped into resources (one composable per resource) */
+  grouping?: GroupingConfig
+  /** Only generate operations matching this filter */
+  include?: OperationFilter
+  /** Skip operations matching this filter */
+  exclude?: OperationFilter
+  /** Compare rendered files with the output on disk instead of writing; fails on drift */
+  check?: boolean
+  /** Report the files that would be written without touching the disk */
+  dryRun?: boolean
+  /**
+   * Generate query composables (e.g. useTaskQuery), query key factories and mutation invalidation (default: false)
+   * `true` or 'async-data' builds them on useAsyncData; 'vue-query' generates TanStack Vue Query
+   * query options, useQuery and useMutation hooks
+   */
+  queries?: boolean | QueryTarget
+  /**
+   * Retry policies by resource name (e.g. { tasks: { attempts: 4 } }), or false to disable retries
+   * Operations override them with an `x-retry` extension
+   */
+  retry?: Record<string, RetryPolicy | false>
+  /** Generate one namespaced set of composables per API; other options are shared defaults */
+  clients?: ClientConfig[]
 }
 
+/**
+ * One API of a multi-client setup
+ * Options not set here are inherited from the top-level config
+ */
+export interface ClientConfig extends Partial<Omit<GeneratorConfig, 'clients' | 'check' | 'dryRun'>> {
+  /** Client name, used as the composable namespace (e.g. 'billing' -> useBillingInvoicesApi) */
+  name: string
+  schemaPath: string
+  /** Output directory for the client's composables (default: '<outputDir>/<name>') */
+  outputDir?: string
+  /** Output path for the client's types (default: '<name>.ts' next to typesOutputPath) */
+  typesOutputPath?: string
+  /** Import path for types in the client's useOpenApi (default: relative path to typesOutputPath) */
+  typesImportPath?: string
+}
+
+/**
+ * Options accepted in `openapi-composables.config.{ts,mjs,json}`
+ * Run modes (check, dry run) are CLI-only
+ */
+export type UserConfig = Partial<Omit<GeneratorConfig, 'check' | 'dryRun'>>
+
+/**
+ * Options for rendering composables from an already loaded schema
+ */
+export type RenderConfig = Omit<
+  GeneratorConfig,
+  'schemaPath' | 'schemaHeaders' | 'schemaCacheDir' | 'validationFailOn' | 'check' | 'dryRun' | 'clients'
+>
+
+/**
+ * A composable file produced by `renderComposables`
+ */
+export interface RenderedComposable {
+  /** File name relative to the output directory */
+  fileName: string
+  composableName: string
+  /** Resources merged into this composable */
+  resources: string[]
+  methods: GeneratedMethod[]
+}
+
+/**
+ * Result of rendering composables in memory
+ */
+export interface RenderResult {
+  /** File contents keyed by path (outputDir joined with the file name, and typesOutputPath) */
+  files: Record<string, string>
+  resources: string[]
+  composables: RenderedComposable[]
+  /** Number of operations removed by include/exclude filters */
+  filteredOperations: number
+  /** Non-fatal problems (e.g. the useOpenApi.ts template could not be read) */
+  warnings: string[]
+}
+
+/**
+ * Library the query composables are built on
+ */
+export type QueryTarget = 'async-data' | 'vue-query'
+
+/**
+ * Options that control how composable files are rendered (subset of GeneratorConfig)
+ */
+export type ComposableOptions = Pick<GeneratorConfig, 'naming' | 'grouping' | 'queries' | 'retry'>
+
+/**
+ * When and how often a failed request is sent again
+ * Unset fields fall back to the runtime policy (see `configureOpenApiRetry`)
+ */
+export interface RetryPolicy {
+  /** Attempts including the first request */
+  attempts?: number
+  /** Delay before the first retry in ms, doubled for each further retry */
+  delay?: number
+  /** Longest delay in ms; a longer Retry-After fails the request */
+  maxDelay?: number
+  /** Randomize each delay between half and all of it */
+  jitter?: boolean
+  /** Response statuses that are retried; network errors and timeouts always are */
+  statusCodes?: number[]
+  /** HTTP methods that are retried (idempotent methods by default) */
+  methods?: string[]
+}
+
+/**
+ * How method names are derived
+ * - 'path': from path segments (e.g. getTasksApi)
+ * - 'operationId': from the operation's operationId, path naming when it has none
+ * - 'hybrid': path naming, operationId naming for operations whose path names collide
+ */
+export type NamingStrategy = 'path' | 'operationId' | 'hybrid'
+
+/**
+ * Method naming options
+ * Hooks receive the default name and may return a replacement (or undefined to keep it)
+ */
+export interface NamingConfig {
+  /** Naming strategy (default: 'path') */
+  strategy?: NamingStrategy
+  /** Prefix for composable names (e.g. 'billing' -> useBillingInvoicesApi, useBillingOpenApi); set per client */
+  namespace?: string
+  /** Rename a generated method (e.g. 'getTaskApi' -> 'fetchTask') */
+  method?: (context: MethodNameContext) => string | undefined
+  /** Rename a generated composable (e.g. 'useTasksApi' -> 'useTasks') */
+  composable?: (context: ComposableNameContext) => string | undefined
+  /** Rename a generated composable file (default: '<composable>.ts') */
+  file?: (context: FileNameContext) => string | undefined
+  /** Extra words for singularizing resource names (e.g. '/api/tasks/{id}' -> getTaskApi) */
+  inflection?: InflectionConfig
+}
+
+/**
+ * User additions to the built-in inflection dictionary
+ */
+export interface InflectionConfig {
+  /** Irregular words, singular -> plural (e.g. { cactus: 'cacti' }) */
+  irregular?: Record<string, string>
+  /** Words without a distinct plural (e.g. ['metadata']) */
+  uncountable?: string[]
+}
+
+/**
+ * How paths are grouped into resources
+ * - 'path': the segment after the base path (e.g. '/api/tasks/{id}' -> 'tasks'), first tag as fallback
+ * - 'tag': the operation's first tag, path segment as fallback
+ * - 'custom': the `resolve` hook, path grouping as fallback
+ */
+export type GroupBy = 'path' | 'tag' | 'custom'
+
+/**
+ * Resource grouping options
+ */
+export interface GroupingConfig {
+  /** Grouping mode (default: 'path') */
+  groupBy?: GroupBy
+  /**
+   * Base path pattern(s) preceding the resource segment (default: '/api')
+   * '{n}' matches a number and '*' a single segment, e.g. '/v{n}' or '/api/*'
+   */
+  basePath?: string | string[]
+  /** Rules mapping path globs to resource names, checked first (default: DEFAULT_GROUPING_RULES) */
+  rules?: GroupingRule[]
+  /** Resolve the resource for a path when groupBy is 'custom' */
+  resolve?: (context: ResourceNameContext) => string | undefined
+}
+
+/**
+ * Rule mapping a path glob to a resource name
+ * Example: { match: '/api/auth/**', resource: 'authentication' }
+ */
+export interface GroupingRule {
+  /** Path glob ('**' crosses segments, '*' stays within one) */
+  match: string
+  resource: string
+}
+
+/**
+ * Context passed to the custom grouping hook
+ */
+export interface ResourceNameContext {
+  path: string
+  pathItem?: PathItem
+  /** Resource name from path grouping */
+  defaultName: string
+}
+
+/**
+ * Context passed to the method naming hook
+ */
+export interface MethodNameContext {
+  path: string
+  /** Lowercase HTTP method (e.g. 'get') */
+  method: string
+  operation: Operation
+  resource: string
+  /** Name produced by the naming strategy */
+  defaultName: string
+}
+
+/**
+ * Context passed to the composable naming hook
+ */
+export interface ComposableNameContext {
+  resource: string
+  /** Default composable name (e.g. 'useTasksApi') */
+  defaultName: string
+}
+
+/**
+ * Context passed to the file naming hook
+ */
+export interface FileNameContext {
+  resource: string
+  /** Composable name after the composable hook */
+  composableName: string
+  /** Default file name (e.g. 'useTasksApi.ts') */
+  defaultName: string
+}
+
+/**
+ * Operation filter used by `include`/`exclude`
+ * Values within one criterion are alternatives. `include` keeps operations matching every
+ * criterion it sets, `exclude` drops operations matching any of them.
+ * Example: { paths: ['/api/admin/**'], tags: ['internal'], extensions: { 'x-internal': true } }
+ */
+export interface OperationFilter {
+  /** Path globs ('**' crosses segments, '*' stays within one) */
+  paths?: string[]
+  tags?: string[]
+  /** HTTP methods (case-insensitive) */
+  methods?: string[]
+  operationIds?: string[]
+  /** `x-` extension values or predicates, checked on the operation and then its path item */
+  extensions?: Record<string, ExtensionPredicate>
+}
+
+/**
+ * Expected extension value (compared with ===), or a predicate receiving the value (undefined when absent)
+ */
+export type ExtensionPredicate = string | number | boolean | null | ((value: unknown) => boolean)
+
 /**
  * OpenAPI Schema structure
  */
@@ -39,8 +292,14 @@ export interface OpenAPISchema {
   paths: Record<string, PathItem>
   components?: {
     schemas?: Record<string, SchemaObject>
+    parameters?: Record<string, Parameter>
     securitySchemes?: Record<string, SecurityScheme>
   }
+  security?: SecurityRequirement[]
+  tags?: Array<{
+    name: string
+    description?: string
+  }>
 }
 
 /**
@@ -70,6 +329,7 @@ export interface Operation {
   requestBody?: RequestBody
   responses?: Record<string, Response>
   security?: SecurityRequirement[]
+  deprecated?: boolean
 }
 
 /**
@@ -81,6 +341,8 @@ export interface Parameter {
   description?: string
   required?: boolean
   schema?: SchemaObject
+  style?: string
+  explode?: boolean
 }
 
 /**
@@ -153,6 +415,18 @@ export interface SecurityScheme {
   in?: 'query' | 'header' | 'cookie'
   scheme?: string
   bearerFormat?: string
+  flows?: Record<string, OAuthFlow>
+  openIdConnectUrl?: string
+}
+
+/**
+ * OpenAPI OAuth Flow
+ */
+export interface OAuthFlow {
+  authorizationUrl?: string
+  tokenUrl?: string
+  refreshUrl?: string
+  scopes: Record<string, string>
 }
 
 /**
@@ -160,6 +434,61 @@ export interface SecurityScheme {
  */
 export type SecurityRequirement = Record<string, string[]>
 
+/**
+ * How the runtime sends the credential of a security scheme:
+ * the auth token as a bearer token (http bearer, oauth2 and openIdConnect), another http
+ * authorization scheme (e.g. basic), or an API key in a header, query parameter or cookie
+ */
+export type SecurityCredential =
+  | { type: 'bearer' }
+  | { type: 'http'; scheme: string }
+  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string }
+
+/**
+ * Security requirement of an operation: the credential of each scheme it needs, by scheme name
+ * An operation accepts any one of its requirements; an empty requirement allows anonymous calls
+ */
+export type OperationSecurity = Record<string, SecurityCredential>
+
+/**
+ * Swagger 2.0 document (upconverted to OpenAPI 3 before generation)
+ */
+export interface Swagger2Schema {
+  swagger: '2.0'
+  info: OpenAPISchema['info']
+  host?: string
+  basePath?: string
+  schemes?: string[]
+  consumes?: string[]
+  produces?: string[]
+  paths: Record<string, Record<string, unknown>>
+  definitions?: Record<string, SchemaObject>
+  parameters?: Record<string, Record<string, unknown>>
+  responses?: Record<string, Record<string, unknown>>
+  securityDefinitions?: Record<string, Record<string, unknown>>
+  security?: SecurityRequirement[]
+  tags?: Array<{ name: string; description?: string }>
+}
+
+/**
+ * Severity of a schema validation diagnostic
+ */
+export type DiagnosticSeverity = 'error' | 'warning'
+
+/**
+ * Problem found while validating an OpenAPI schema
+ */
+export interface SchemaDiagnostic {
+  /** Machine-readable problem code (e.g. 'unresolved-ref') */
+  code: string
+  severity: DiagnosticSeverity
+  /** JSON pointer to the offending node (e.g. '/paths/~1api~1tasks/get') */
+  pointer: string
+  message: string
+  /** Suggestion for fixing the problem */
+  hint?: string
+}
+
 /**
  * Generated method information
  */
@@ -168,6 +497,18 @@ export interface GeneratedMethod {
   path: string
   httpMethod: string
   contentType: string
+  /** Reactive query composable for GET methods, when `queries` is enabled */
+  queryName?: string
+  /** TanStack query options factory for GET methods, when `queries` is 'vue-query' */
+  queryOptionsName?: string
+  /** TanStack useMutation hook for write methods, when `queries` is 'vue-query' */
+  mutationName?: string
+  /** GET paths refreshed after the method succeeds, when `queries` is enabled */
+  invalidates?: string[]
+  /** Security requirements, when the schema declares them (an empty list for public operations) */
+  security?: OperationSecurity[]
+  /** Retry policy from the `retry` config and the operation's `x-retry` extension */
+  retry?: RetryPolicy | false
 }
 
 /**
@@ -0,0 +1,317 @@
+import type {
+  OpenAPISchema,
+  PathItem,
+  Operation,
+  Parameter,
+  SchemaDiagnostic,
+  DiagnosticSeverity,
+  SecurityRequirement
+} from './types'
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const
+
+const SEVERITY_RANK: Record<DiagnosticSeverity, number> = {
+  warning: 1,
+  error: 2
+}
+
+/**
+ * Build a JSON pointer from path segments
+ * Example: ['paths', '/api/tasks', 'get'] -> '/paths/~1api~1tasks/get'
+ */
+export function toJsonPointer(segments: Array<string | number>): string {
+  return segments
+    .map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('')
+}
+
+/**
+ * Resolve a local '#/...' ref against the schema
+ */
+function resolveLocalRef(schema: OpenAPISchema, ref: string): unknown {
+  let current: unknown = schema
+  const segments = ref
+    .slice(2)
+    .split('/')
+    .filter(segment => segment.length > 0)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+/**
+ * Walk the whole document and report every $ref that doesn't resolve
+ */
+function checkRefs(
+  schema: OpenAPISchema,
+  node: unknown,
+  segments: Array<string | number>,
+  diagnostics: SchemaDiagnostic[]
+): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, index) => checkRefs(schema, item, [...segments, index], diagnostics))
+    return
+  }
+  if (!node || typeof node !== 'object') return
+
+  const record = node as Record<string, unknown>
+  if (typeof record.$ref === 'string') {
+    const ref = record.$ref
+    if (!ref.startsWith('#')) {
+      diagnostics.push({
+        code: 'external-ref',
+        severity: 'warning',
+        pointer: toJsonPointer([...segments, '$ref']),
+        message: `External $ref "${ref}" was not bundled`,
+        hint: 'Use a local schema file so external refs can be bundled, or inline the referenced document.'
+      })
+    } else if (ref !== '#' && resolveLocalRef(schema, ref) === undefined) {
+      diagnostics.push({
+        code: 'unresolved-ref',
+        severity: 'error',
+        pointer: toJsonPointer([...segments, '$ref']),
+        message: `$ref "${ref}" does not resolve`,
+        hint: 'Check the spelling of the referenced component or add it under "components".'
+      })
+    }
+  }
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key !== '$ref') checkRefs(schema, value, [...segments, key], diagnostics)
+  }
+}
+
+/**
+ * Resolve a parameter that may be a local '$ref' (e.g. to components.parameters)
+ */
+export function resolveParameter(schema: OpenAPISchema, parameter: Parameter): Parameter | undefined {
+  const ref = (parameter as Parameter & { $ref?: string }).$ref
+  if (typeof ref !== 'string') return parameter
+  return ref.startsWith('#') ? (resolveLocalRef(schema, ref) as Parameter | undefined) : undefined
+}
+
+/**
+ * Check the parameters of one operation against its path template
+ */
+function checkOperationParameters(
+  schema: OpenAPISchema,
+  path: string,
+  pathItem: PathItem,
+  operation: Operation,
+  segments: Array<string | number>,
+  diagnostics: SchemaDiagnostic[]
+): void {
+  const templateParams = Array.from(path.matchAll(/\{([^}]+)\}/g), match => match[1])
+  const seen = new Set<string>()
+
+  ;(operation.parameters || []).forEach((raw, index) => {
+    const parameter = resolveParameter(schema, raw)
+    if (!parameter?.name || !parameter.in) return
+
+    const key = `${parameter.in}:${parameter.name}`
+    if (seen.has(key)) {
+      diagnostics.push({
+        code: 'duplicate-parameter',
+        severity: 'error',
+        pointer: toJsonPointer([...segments, 'parameters', index]),
+        message: `Duplicate ${parameter.in} parameter "${parameter.name}"`,
+        hint: 'Each parameter name may only appear once per location in an operation.'
+      })
+    }
+    seen.add(key)
+  })
+
+  const pathParameters = [...(pathItem.parameters || []), ...(operation.parameters || [])]
+    .map(raw => resolveParameter(schema, raw))
+    .filter((parameter): parameter is Parameter => parameter?.in === 'path')
+  const definedNames = new Set(pathParameters.map(parameter => parameter.name))
+
+  for (const name of templateParams) {
+    if (!definedNames.has(name)) {
+      diagnostics.push({
+        code: 'missing-path-parameter',
+        severity: 'error',
+        pointer: toJsonPointer(segments),
+        message: `Path template parameter "{${name}}" has no matching parameter definition`,
+        hint: `Add { name: '${name}', in: 'path', required: true } to the operation or path item parameters.`
+      })
+    }
+  }
+
+  for (const parameter of pathParameters) {
+    if (!templateParams.includes(parameter.name)) {
+      diagnostics.push({
+        code: 'unused-path-parameter',
+        severity: 'warning',
+        pointer: toJsonPointer(segments),
+        message: `Path parameter "${parameter.name}" does not appear in the path template`,
+        hint: `Add "{${parameter.name}}" to the path or change the parameter location.`
+      })
+    } else if (parameter.required !== true) {
+      diagnostics.push({
+        code: 'optional-path-parameter',
+        severity: 'warning',
+        pointer: toJsonPointer(segments),
+        message: `Path parameter "${parameter.name}" is not marked as required`,
+        hint: 'Path parameters must declare "required: true".'
+      })
+    }
+  }
+}
+
+/**
+ * Check that every security requirement references a declared security scheme
+ */
+function checkSecurity(
+  schema: OpenAPISchema,
+  security: SecurityRequirement[] | undefined,
+  segments: Array<string | number>,
+  diagnostics: SchemaDiagnostic[]
+): void {
+  const schemes = schema.components?.securitySchemes || {}
+  ;(security || []).forEach((requirement, index) => {
+    for (const name of Object.keys(requirement)) {
+      if (!(name in schemes)) {
+        diagnostics.push({
+          code: 'unknown-security-scheme',
+          severity: 'error',
+          pointer: toJsonPointer([...segments, 'security', index, name]),
+          message: `Security scheme "${name}" is not defined`,
+          hint: `Declare "${name}" under components.securitySchemes.`
+        })
+      }
+    }
+  })
+}
+
+/**
+ * Validate the structure of an OpenAPI schema
+ * Reports every problem with its JSON pointer, severity and a hint instead of stopping at the first one
+ */
+export function validateOpenApiSchema(schema: OpenAPISchema): SchemaDiagnostic[] {
+  const diagnostics: SchemaDiagnostic[] = []
+
+  if (!schema.openapi) {
+    diagnostics.push({
+      code: 'missing-openapi-version',
+      severity: 'error',
+      pointer: '/openapi',
+      message: 'Missing "openapi" field',
+      hint: 'Add the OpenAPI version, e.g. openapi: 3.1.0.'
+    })
+  }
+
+  if (!schema.info?.title || !schema.info?.version) {
+    diagnostics.push({
+      code: 'incomplete-info',
+      severity: 'warning',
+      pointer: '/info',
+      message: 'The "info" object should define "title" and "version"',
+      hint: 'Add info.title and info.version to the schema.'
+    })
+  }
+
+  if (!schema.paths || Object.keys(schema.paths).length === 0) {
+    diagnostics.push({
+      code: 'no-paths',
+      severity: 'error',
+      pointer: '/paths',
+      message: 'No paths defined',
+      hint: 'Composables are generated from "paths"; add at least one endpoint.'
+    })
+  }
+
+  // OpenAPI 3.0 requires responses on every operation, 3.1 made them optional
+  const responsesSeverity: DiagnosticSeverity = schema.openapi?.startsWith('3.0') ? 'error' : 'warning'
+  const operationIds = new Map<string, string>()
+
+  for (const [path, pathItem] of Object.entries(schema.paths || {})) {
+    if (!path.startsWith('/')) {
+      diagnostics.push({
+        code: 'invalid-path',
+        severity: 'error',
+        pointer: toJsonPointer(['paths', path]),
+        message: `Path "${path}" must start with "/"`,
+        hint: `Rename the path to "/${path}".`
+      })
+    }
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[method]
+      if (!operation) continue
+
+      const segments = ['paths', path, method]
+      const pointer = toJsonPointer(segments)
+
+      if (operation.operationId) {
+        const firstPointer = operationIds.get(operation.operationId)
+        if (firstPointer) {
+          diagnostics.push({
+            code: 'duplicate-operation-id',
+            severity: 'error',
+            pointer: toJsonPointer([...segments, 'operationId']),
+            message: `Duplicate operationId "${operation.operationId}"`,
+            hint: `Already used at ${firstPointer}; operationIds must be unique.`
+          })
+        } else {
+          operationIds.set(operation.operationId, pointer)
+        }
+      }
+
+      if (!operation.responses || Object.keys(operation.responses).length === 0) {
+        diagnostics.push({
+          code: 'missing-responses',
+          severity: responsesSeverity,
+          pointer,
+          message: `${method.toUpperCase()} ${path} defines no responses`,
+          hint: 'Add at least one response so the generated method gets a typed result.'
+        })
+      }
+
+      if (operation.requestBody && Object.keys(operation.requestBody.content || {}).length === 0) {
+        diagnostics.push({
+          code: 'empty-request-body',
+          severity: 'error',
+          pointer: toJsonPointer([...segments, 'requestBody']),
+          message: `Request body of ${method.toUpperCase()} ${path} has no content types`,
+          hint: 'Add a media type such as "application/json" under requestBody.content.'
+        })
+      }
+
+      checkOperationParameters(schema, path, pathItem, operation, segments, diagnostics)
+      checkSecurity(schema, operation.security, segments, diagnostics)
+    }
+  }
+
+  checkSecurity(schema, schema.security, [], diagnostics)
+  checkRefs(schema, schema, [], diagnostics)
+
+  return diagnostics
+}
+
+/**
+ * Check whether a diagnostic meets the configured failure threshold
+ */
+export function meetsSeverityThreshold(
+  severity: DiagnosticSeverity,
+  threshold: DiagnosticSeverity | 'never'
+): boolean {
+  if (threshold === 'never') return false
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold]
+}
+
+/**
+ * Format a diagnostic for terminal output
+ * Example: '/paths/~1api~1tasks~1{id}/get: Path template parameter "{id}" ... (missing-path-parameter)'
+ */
+export function formatDiagnostic(diagnostic: SchemaDiagnostic): string {
+  const location = diagnostic.pointer || '/'
+  const hint = diagnostic.hint ? `\n  → ${diagnostic.hint}` : ''
+  return `${location}: ${diagnostic.message} (${diagnostic.code})${hint}`
+}
@@ -0,0 +1,142 @@
+import { watch, existsSync } from 'node:fs'
+import type { FSWatcher } from 'node:fs'
+import { dirname, basename, resolve } from 'node:path'
+import { consola } from 'consola'
+import type { GeneratorConfig } from './types'
+import { generateComposables } from './generator'
+import { getSchemaFiles } from './schema-loader'
+import { isSchemaUrl } from './schema-fetcher'
+import { resolveClientConfigs } from './clients'
+
+/**
+ * Options for watch mode
+ */
+export interface WatchOptions {
+  /** Wait this long after the last change before regenerating, in milliseconds (default: 300) */
+  debounce?: number
+}
+
+/**
+ * Running watcher returned by `watchComposables`
+ */
+export interface ComposablesWatcher {
+  /** Files currently watched (the schemas and every file they reference) */
+  readonly files: string[]
+  /** Resolves when the pending or running generation has finished */
+  idle(): Promise<void>
+  close(): void
+}
+
+/**
+ * Generate composables and regenerate them whenever the schema or a file it references changes
+ * - Changes are debounced and a run is never started while another is in progress
+ * - Only files whose content changed are rewritten
+ * - Generation errors are reported and the watcher keeps running
+ */
+export async function watchComposables(
+  config: GeneratorConfig,
+  options: WatchOptions = {}
+): Promise<ComposablesWatcher> {
+  // With clients, every client's schema is watched and a change regenerates all of them
+  const schemaPaths = resolveClientConfigs(config).map(client => client.schemaPath)
+  if (schemaPaths.some(isSchemaUrl)) {
+    throw new Error('Watch mode requires a local schema file')
+  }
+
+  const debounce = options.debounce ?? 300
+  const directoryWatchers = new Map<string, FSWatcher>()
+  let files: string[] = []
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let running: Promise<void> | undefined
+  let rerun = false
+  let closed = false
+
+  // Directories are watched instead of files so editors that replace files on save are picked up
+  const updateWatchers = () => {
+    files = [...new Set(schemaPaths.flatMap(schemaPath => getSchemaFiles(schemaPath)))]
+    const directories = new Set(files.map(file => dirname(file)))
+
+    for (const [directory, watcher] of directoryWatchers) {
+      if (!directories.has(directory)) {
+        watcher.close()
+        directoryWatchers.delete(directory)
+      }
+    }
+
+    for (const directory of directories) {
+      if (directoryWatchers.has(directory) || !existsSync(directory)) continue
+
+      const watcher = watch(directory, (_event, fileName) => {
+        if (!fileName || files.includes(resolve(directory, fileName.toString()))) {
+          schedule()
+        }
+      })
+      watcher.on('error', (error) => {
+        consola.warn(`Stopped watching ${directory}: ${error.message}`)
+        watcher.close()
+        directoryWatchers.delete(directory)
+      })
+      directoryWatchers.set(directory, watcher)
+    }
+  }
+
+  const run = async () => {
+    try {
+      await generateComposables({ ...config, check: false, dryRun: false })
+    } catch {
+      // generateComposables already logged the error; keep watching for the next change
+      consola.warn('Waiting for the schema to change...')
+    }
+    if (closed) return
+
+    updateWatchers()
+    consola.info(`Watching ${files.map(file => basename(file)).join(', ')} for changes`)
+  }
+
+  const start = () => {
+    running = run().finally(() => {
+      running = undefined
+      if (rerun && !closed) {
+        rerun = false
+        start()
+      }
+    })
+  }
+
+  const schedule = () => {
+    if (closed) return
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = undefined
+      if (running) {
+        rerun = true
+      } else {
+        start()
+      }
+    }, debounce)
+  }
+
+  start()
+  await running
+
+  return {
+    get files() {
+      return [...files]
+    },
+    async idle() {
+      while (timer || running) {
+        if (running) {
+          await running
+        } else {
+          await new Promise(resolve => setTimeout(resolve, debounce))
+        }
+      }
+    },
+    close() {
+      closed = true
+      if (timer) clearTimeout(timer)
+      directoryWatchers.forEach(watcher => watcher.close())
+      directoryWatchers.clear()
+    }
+  }
+}
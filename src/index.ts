@@ -4,18 +4,105 @@
 
 // Export core functionality
 export { generateComposables, generateComposablesWithErrorHandling } from './core/generator'
-export { toPascalCase, getResourceName, generateMethodName } from './core/naming'
+export { renderComposables } from './core/renderer'
+export { watchComposables } from './core/watcher'
+export { resolveClientConfigs } from './core/clients'
+export {
+  defineConfig,
+  loadConfigFile,
+  findConfigFile,
+  mergeConfig,
+  resolveConfigPaths,
+  CONFIG_FILE_NAMES,
+  DEFAULT_CONFIG
+} from './core/config-loader'
+export type { LoadedConfig } from './core/config-loader'
+export type { WatchOptions, ComposablesWatcher } from './core/watcher'
+export {
+  toPascalCase,
+  getResourceName,
+  generateMethodName,
+  operationIdToMethodName,
+  resolveMethodNames,
+  getComposableName,
+  getComposableFileName,
+  getOpenApiComposableName,
+  getVueQueryComposableName,
+  getQueryName,
+  getQueryOptionsName,
+  getMutationName,
+  getQueryKeyHelperName,
+  getQueryKeysName,
+  getPathSegments,
+  DEFAULT_GROUPING_RULES
+} from './core/naming'
+export { matchGlob, globToRegExp } from './core/glob'
+export { filterSchema, matchesOperationFilters, addFilterExpression } from './core/filter'
+export { singularize, pluralize, singularizePascalCase } from './core/inflection'
 export {
   extractResources,
   getResourcePaths,
   getHttpMethods,
-  getContentType
+  getContentType,
+  getOperationId,
+  getSecurity
 } from './core/resource-parser'
 export { generateComposable, getGeneratedMethods } from './core/method-generator'
+export { generateQueryKeys, getInvalidatedPaths } from './core/query-keys'
+export type { QueryEndpoint } from './core/query-keys'
+export { getRetryPolicy, formatRetryPolicy } from './core/retry'
+export { generateMethodDoc } from './core/doc-comment'
+export {
+  loadSchema,
+  bundleSchema,
+  parseSchemaDocument,
+  detectSchemaFormat,
+  getSchemaFiles
+} from './core/schema-loader'
+export type { SchemaFormat } from './core/schema-loader'
+export { isSwagger2, convertSwagger2 } from './core/swagger-converter'
+export { fetchSchema, isSchemaUrl } from './core/schema-fetcher'
+export type { SchemaFetchOptions, FetchedSchema } from './core/schema-fetcher'
+export {
+  MANIFEST_FILE_NAME,
+  createManifest,
+  readManifest,
+  writeManifest,
+  getStaleFiles,
+  getRemovableStaleFiles,
+  removeStaleFiles
+} from './core/manifest'
+export type { GenerationManifest } from './core/manifest'
+export { createUnifiedDiff, detectDrift } from './core/diff'
+export type { FileDrift } from './core/diff'
+export {
+  validateOpenApiSchema,
+  meetsSeverityThreshold,
+  formatDiagnostic,
+  toJsonPointer
+} from './core/validator'
 
 // Export types
 export type {
   GeneratorConfig,
+  UserConfig,
+  ClientConfig,
+  RenderConfig,
+  RenderResult,
+  RenderedComposable,
+  ComposableOptions,
+  NamingConfig,
+  NamingStrategy,
+  InflectionConfig,
+  MethodNameContext,
+  ComposableNameContext,
+  FileNameContext,
+  GroupBy,
+  GroupingConfig,
+  GroupingRule,
+  ResourceNameContext,
+  OperationFilter,
+  ExtensionPredicate,
   OpenAPISchema,
   PathItem,
   Operation,
@@ -24,8 +111,15 @@ export type {
   Response,
   MediaType,
   SchemaObject,
+  Swagger2Schema,
+  SchemaDiagnostic,
+  DiagnosticSeverity,
   GeneratedMethod,
-  ResourceInfo
+  ResourceInfo,
+  QueryTarget,
+  SecurityCredential,
+  OperationSecurity,
+  RetryPolicy
 } from './core/types'
 
 // Export runtime
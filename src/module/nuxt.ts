@@ -1,5 +1,20 @@
-import { defineNuxtModule, createResolver, addImportsDir, addTemplate } from '@nuxt/kit'
-import type { GeneratorConfig } from '../core/types'
+import { mkdirSync, existsSync, readdirSync, readFileSync } from 'node:fs'
+import { defineNuxtModule, createResolver, addImportsDir, addTemplate, useLogger } from '@nuxt/kit'
+import { resolve, join, basename } from 'pathe'
+import type { GeneratorConfig, UserConfig } from '../core/types'
+import { generateComposables } from '../core/generator'
+import { getSchemaFiles } from '../core/schema-loader'
+import { isSchemaUrl } from '../core/schema-fetcher'
+import { MANIFEST_FILE_NAME } from '../core/manifest'
+import { getOpenApiComposableName } from '../core/naming'
+import { resolveClientConfigs } from '../core/clients'
+import {
+  DEFAULT_CONFIG,
+  loadConfigFile,
+  mergeConfig,
+  resolveConfigPaths,
+  toGeneratorConfig
+} from '../core/config-loader'
 
 export interface ModuleOptions extends Partial<GeneratorConfig> {
   /**
@@ -7,6 +22,69 @@ export interface ModuleOptions extends Partial<GeneratorConfig> {
    * @default true
    */
   autoImport?: boolean
+  /**
+   * Generate composables when Nuxt starts, builds or prepares types
+   * @default true
+   */
+  generate?: boolean
+  /**
+   * Regenerate in development when the schema or a file it references changes
+   * @default true
+   */
+  watch?: boolean
+  /**
+   * Emit composables (and types) into `.nuxt/openapi-composables` instead of `outputDir`,
+   * so generated files need not be committed
+   * @default false
+   */
+  emitToBuildDir?: boolean
+}
+
+/**
+ * Directory inside the Nuxt build dir used when `emitToBuildDir` is enabled
+ */
+const BUILD_DIR_OUTPUT = 'openapi-composables'
+
+/**
+ * Names of the values a generated file exports (types and interfaces are skipped)
+ * Example: 'export const useTasksApi = ...' -> ['useTasksApi']
+ */
+export function getGeneratedExports(content: string): string[] {
+  return Array.from(content.matchAll(/^export (?:const|function|class) (\w+)/gm), match => match[1])
+}
+
+/**
+ * Resolve module options into a generator config with absolute paths
+ * Module options override the config file (`fileConfig`), which overrides the defaults
+ */
+export function resolveGeneratorConfig(
+  options: ModuleOptions,
+  dirs: { rootDir: string; buildDir: string },
+  fileConfig?: UserConfig
+): GeneratorConfig {
+  const { autoImport: _autoImport, generate: _generate, watch: _watch, emitToBuildDir, ...config } = options
+
+  const resolved = toGeneratorConfig(mergeConfig(
+    resolveConfigPaths(DEFAULT_CONFIG, dirs.rootDir),
+    fileConfig,
+    resolveConfigPaths(config, dirs.rootDir)
+  ))
+
+  if (emitToBuildDir) {
+    resolved.outputDir = join(dirs.buildDir, BUILD_DIR_OUTPUT)
+    if (resolved.generateTypes) {
+      resolved.typesOutputPath = join(dirs.buildDir, BUILD_DIR_OUTPUT, 'types', 'api.ts')
+      resolved.typesImportPath = `#build/${BUILD_DIR_OUTPUT}/types/api`
+    }
+    // Clients fall back to '<name>' and 'types/<name>.ts' inside the build dir output
+    resolved.clients = resolved.clients?.map(client => ({
+      ...client,
+      outputDir: undefined,
+      typesOutputPath: undefined
+    }))
+  }
+
+  return resolved
 }
 
 export default defineNuxtModule<ModuleOptions>({
@@ -17,17 +95,25 @@ export default defineNuxtModule<ModuleOptions>({
       nuxt: '^3.0.0'
     }
   },
+  // Generator defaults are applied below openapi-composables.config.*, see resolveGeneratorConfig
   defaults: {
-    schemaPath: './schema/api.json',
-    outputDir: './app/composables/api',
-    cookieName: 'authToken',
-    baseApiPath: '/api',
-    generateTypes: false,
-    typesOutputPath: './app/types/api.ts',
-    autoImport: true
+    autoImport: true,
+    generate: true,
+    watch: true,
+    emitToBuildDir: false
   },
   async setup(options, nuxt) {
     const resolver = createResolver(import.meta.url)
+    const logger = useLogger('nuxt-openapi-composables')
+    const loaded = await loadConfigFile(nuxt.options.rootDir)
+    const config = resolveGeneratorConfig(options, nuxt.options, loaded?.config)
+    // One output per client, or the config itself without clients
+    const targets = resolveClientConfigs(config)
+
+    // Editing the config file restarts the dev server
+    if (nuxt.options.dev && loaded && !nuxt.options.watch.includes(loaded.configFile)) {
+      nuxt.options.watch.push(loaded.configFile)
+    }
 
     // Add runtime directory to Nuxt
     nuxt.options.alias['#nuxt-openapi-composables'] = resolver.resolve('../runtime')
@@ -40,35 +126,146 @@ export default defineNuxtModule<ModuleOptions>({
 import { createUseApi } from '#nuxt-openapi-composables/useApi'
 
 export const useApi = createUseApi({
-  cookieName: '${options.cookieName}',
-  baseURL: '${options.baseApiPath}'
+  cookieName: '${config.cookieName}',
+  baseURL: '${config.baseApiPath}'
 })
 `
       }
     })
 
+    // Values exported by the last generation (composables, key factories and helpers)
+    let composables: Array<{ name: string; from: string }> = []
+
     // Auto-import generated composables if enabled
-    if (options.autoImport && options.outputDir) {
-      try {
-        addImportsDir(resolver.resolve(nuxt.options.rootDir, options.outputDir))
-      } catch (error) {
-        // Directory might not exist yet - that's okay
-        // Users need to run the generator first
+    if (options.autoImport && options.emitToBuildDir) {
+      // Nuxt ignores its build dir when scanning import dirs, so register the composables directly
+      nuxt.hook('imports:extend', (imports) => {
+        imports.push(...composables)
+      })
+    } else if (options.autoImport) {
+      // The directories must exist when Nuxt scans them, even before the first generation
+      for (const target of targets) {
+        if (!existsSync(target.outputDir)) {
+          mkdirSync(target.outputDir, { recursive: true })
+        }
+        addImportsDir(target.outputDir)
       }
     }
 
+    // Nuxt creates its imports context after this module's `modules:done` hook and scans the
+    // composables then; rescanning before that fails
+    let importsReady = false
+    nuxt.hook('imports:context', () => {
+      importsReady = true
+    })
+
+    // A single generation at a time; errors fail production builds but not the dev server
+    // Imports may have been scanned already, so rescan the output afterwards
+    const runGeneration = (): Promise<void> =>
+      generateComposables(config)
+        .then(async () => {
+          composables = targets.flatMap(target =>
+            readdirSync(target.outputDir)
+              .filter(file => file.endsWith('.ts'))
+              .flatMap((file) => {
+                const from = join(target.outputDir, basename(file, '.ts'))
+                const content = readFileSync(join(target.outputDir, file), 'utf-8')
+                return getGeneratedExports(content).map(name => ({ name, from }))
+              })
+          )
+          if (!importsReady) return
+          for (const target of targets) {
+            const openApiFile = `${getOpenApiComposableName(target.naming)}.ts`
+            await nuxt.callHook('builder:watch', 'change', join(target.outputDir, openApiFile))
+          }
+        })
+        .catch((error) => {
+          if (!nuxt.options.dev) throw error
+          logger.error('Failed to generate composables, fix the schema to regenerate')
+        })
+
+    // A call during a generation queues one more run, so a schema change made meanwhile
+    // isn't lost; the returned promise settles once the queued run is done
+    let pending: Promise<void> | undefined
+    let rerun = false
+    const generate = (): Promise<void> => {
+      if (pending) {
+        rerun = true
+        return pending
+      }
+      pending = (async () => {
+        do {
+          rerun = false
+          await runGeneration()
+        } while (rerun)
+      })().finally(() => {
+        pending = undefined
+      })
+      return pending
+    }
+
+    if (options.generate) {
+      // Generate once modules are done, before Nuxt writes its templates, so a clean
+      // `nuxi prepare` already knows the composables. `build:before` and `prepare:types`
+      // generate again only when the output is gone (`nuxi build` clears the build dir).
+      let initial: Promise<void> | undefined
+      const generateOnce = () => {
+        if (!initial || targets.some(target => !existsSync(join(target.outputDir, MANIFEST_FILE_NAME)))) {
+          initial = generate()
+        }
+        return initial
+      }
+      nuxt.hook('modules:done', generateOnce)
+      nuxt.hook('build:before', generateOnce)
+      nuxt.hook('prepare:types', generateOnce)
+    }
+
+    // Remote schemas are not watched
+    const schemaPaths = targets.map(target => target.schemaPath).filter(schemaPath => !isSchemaUrl(schemaPath))
+    const getAllSchemaFiles = () => [...new Set(schemaPaths.flatMap(schemaPath => getSchemaFiles(schemaPath)))]
+
+    if (nuxt.options.dev && options.generate && options.watch && schemaPaths.length > 0) {
+      let schemaFiles = getAllSchemaFiles()
+      const srcDir = nuxt.options.srcDir.replace(/\/?$/, '/')
+
+      // Nuxt only watches the app directories; schema files elsewhere restart the dev server,
+      // which regenerates on startup
+      for (const file of schemaFiles) {
+        if (!file.startsWith(srcDir) && !nuxt.options.watch.includes(file)) {
+          nuxt.options.watch.push(file)
+        }
+      }
+
+      nuxt.hook('builder:watch', async (_event, path) => {
+        const file = resolve(nuxt.options.srcDir, path)
+        if (!file.startsWith(srcDir) || !schemaFiles.includes(file)) return
+
+        logger.info('Schema changed, regenerating composables')
+        await generate()
+        schemaFiles = getAllSchemaFiles()
+      })
+    }
+
     // Log setup info
     if (nuxt.options.dev) {
       console.log('🚀 Nuxt OpenAPI Composables module loaded')
-      console.log(`   Schema: ${options.schemaPath}`)
-      console.log(`   Output: ${options.outputDir}`)
+      if (loaded) {
+        console.log(`   Config: ${loaded.configFile}`)
+      }
+      for (const target of targets) {
+        const client = target.naming?.namespace ? `${target.naming.namespace}: ` : ''
+        console.log(`   Schema: ${client}${target.schemaPath}`)
+        console.log(`   Output: ${client}${target.outputDir}`)
+      }
       console.log(`   Auto-import: ${options.autoImport}`)
+      console.log(`   Generate: ${options.generate ? (options.watch ? 'on build, watching schema' : 'on build') : 'manual'}`)
       console.log('')
-      console.log('   Run "nuxt-openapi-composables generate" to create composables')
+      if (!options.generate) {
+        console.log('   Run "nuxt-openapi-composables generate" to create composables')
+      }
     }
   }
 })
 
 // Export types
 export type { GeneratorConfig }
-
@@ -17,19 +17,88 @@
  *
  * Error Handling:
  * All API errors are thrown and can be caught by your application.
- * Errors include statusCode and statusMessage properties.
+ * Errors include kind ('http', 'network', 'timeout' or 'abort'), status, statusCode,
+ * statusMessage and data (the error response body) properties.
  *
  * Example:
  * try {
- *   await getUserWords()
+ *   await postTasksApi({ body })
  * } catch (error) {
- *   if (error.statusCode === 401) {
- *     // Handle authentication error (redirect to login, etc.)
+ *   if (isApiError(error, '/api/tasks', 'post') && error.status === 422) {
+ *     // error.data is typed from the 422 response of the schema
  *   }
  * }
+ *
+ * Interceptors:
+ * Register onRequest, onResponse and onError interceptors in a Nuxt plugin to add headers,
+ * log timings or transform responses without editing this file.
+ *
+ * export default defineNuxtPlugin(() => {
+ *   addOpenApiInterceptor({
+ *     onRequest({ endpoint, options }) {
+ *       options.headers['X-Request-Id'] = crypto.randomUUID()
+ *     }
+ *   })
+ * })
+ *
+ * Authentication:
+ * The token of the 'authToken' cookie is sent as `Authorization: Bearer <token>`. Configure
+ * another source and a refresh on 401 responses in a Nuxt plugin:
+ *
+ * export default defineNuxtPlugin(() => {
+ *   configureOpenApiAuth({
+ *     getToken: () => useAuthStore().token,
+ *     refresh: async () => (await $fetch<{ token: string }>('/api/token/refresh', { method: 'POST' })).token,
+ *     onLogout: () => navigateTo('/login')
+ *   })
+ * })
  */
 
 import type { paths } from '~/types/api'
+import type { MaybeRefOrGetter, Ref } from 'vue'
+import type { AsyncDataOptions } from '#app'
+
+// Prefix of the useAsyncData keys used by query composables
+const QUERY_KEY_PREFIX = 'openapi'
+
+// Cookie holding the auth token, unless configureOpenApiAuth sets another source
+const AUTH_COOKIE_NAME = 'authToken'
+
+// JSON with sorted object keys, so equal arguments always produce the same key
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+// Deterministic useAsyncData key for a GET path, its params and query
+// Params are filled into the path, so keys follow URLs: 'openapi:/api/tasks/1:{"page":2}'
+export const getQueryKey = (path: string, options: { params?: unknown; query?: unknown } = {}): string => {
+  const params = (options.params || {}) as Record<string, unknown>
+  const url = path.replace(/\{([^}]+)\}/g, (match, name: string) =>
+    params[name] === undefined ? match : encodeURIComponent(String(params[name]))
+  )
+  const query = stableStringify(options.query ?? {})
+  return query === '{}' ? `${QUERY_KEY_PREFIX}:${url}` : `${QUERY_KEY_PREFIX}:${url}:${query}`
+}
+
+// Keys of the invalidated paths, skipping paths whose params the call doesn't provide
+const getInvalidatedKeys = (paths: string[], params: unknown): string[] =>
+  paths
+    .map(path => getQueryKey(path, { params }))
+    .filter(key => !/\{[^}]+\}/.test(key))
+
+// A key matches itself and its variants with a query
+const matchesQueryKey = (key: string, target: string): boolean =>
+  key === target || key.startsWith(`${target}:`)
 
 // Helper types to extract response types from OpenAPI paths
 type ApiResponse<T extends keyof paths, M extends keyof paths[T], ContentType extends 'application/ld+json' | 'application/json'>
@@ -59,6 +128,22 @@ type ApiQueryParams<T extends keyof paths, M extends keyof paths[T]>
     ? R
     : never
 
+// Error variants of an endpoint, one per error response of the schema ('default' and '4XX'
+// responses have any status), with the response body as data
+type ApiHttpError<T extends keyof paths, M extends keyof paths[T]>
+  = paths[T][M] extends { responses: infer R }
+    ? {
+        [S in keyof R]-?: `${S & (string | number)}` extends `${1 | 2 | 3}${string}`
+          ? never
+          : {
+              kind: 'http'
+              status: S extends number ? S : number
+              statusCode: S extends number ? S : number
+              data: R[S] extends { content: infer C } ? C[keyof C] : unknown
+            }
+      }[keyof R]
+    : never
+
 // Helper type to determine content type from path and method
 type ApiContentType<T extends keyof paths, M extends keyof paths[T]>
   = paths[T][M] extends { responses: { 200: { content: { 'application/ld+json': unknown } } } }
@@ -67,11 +152,328 @@ type ApiContentType<T extends keyof paths, M extends keyof paths[T]>
       ? 'application/json'
       : 'application/ld+json'
 
+// How the credential of a security scheme is sent: the auth token as a bearer token,
+// another Authorization scheme (e.g. basic), or an API key in a header, query parameter or cookie
+export type OpenApiSecurityCredential =
+  | { type: 'bearer' }
+  | { type: 'http'; scheme: string }
+  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string }
+
+// Credentials of a security requirement by scheme name; an empty requirement allows anonymous calls
+export type OpenApiSecurityRequirement = Record<string, OpenApiSecurityCredential>
+
 // Type for endpoint configuration
 export type EndpointConfig = {
   path: keyof paths
   method: keyof paths[keyof paths]
   contentType?: 'application/ld+json' | 'application/json' | 'application/merge-patch+json'
+  // Operation ID from the schema, passed to interceptors
+  operationId?: string
+  // Security requirements from the schema, any one of which is sent; [] for public endpoints
+  security?: OpenApiSecurityRequirement[]
+  // Retry policy of the resource and the operation's x-retry extension, over the global policy
+  retry?: OpenApiRetryPolicy | false
+  // GET paths whose query data is refreshed after the call succeeds, filled with the call's params
+  invalidates?: string[]
+}
+
+// Endpoint of a request, as interceptors see it
+export type OpenApiEndpoint = {
+  // Path template, e.g. '/api/tasks/{id}'
+  path: string
+  method: string
+  operationId?: string
+  security?: OpenApiSecurityRequirement[]
+}
+
+// Request passed through the interceptors; onRequest may change the url and options,
+// onResponse may replace the response and onError may set one to recover from the error
+export type OpenApiRequestContext = {
+  endpoint: OpenApiEndpoint
+  url: string
+  options: {
+    method: NonNullable<ApiCallOptions['method']>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    body?: any
+    query?: ApiCallOptions['query']
+    headers: Record<string, string>
+  }
+  response?: unknown
+  error?: unknown
+}
+
+export type OpenApiInterceptor = {
+  onRequest?: (context: OpenApiRequestContext) => void | Promise<void>
+  onResponse?: (context: OpenApiRequestContext & { response: unknown }) => void | Promise<void>
+  onError?: (context: OpenApiRequestContext & { error: unknown }) => void | Promise<void>
+}
+
+// Interceptors are kept on the Nuxt app, so server requests don't share them
+const INTERCEPTORS_KEY = Symbol.for(`${QUERY_KEY_PREFIX}:interceptors`)
+
+const getInterceptors = (nuxtApp: object): OpenApiInterceptor[] => {
+  const registry = nuxtApp as Record<symbol, OpenApiInterceptor[] | undefined>
+  return (registry[INTERCEPTORS_KEY] ||= [])
+}
+
+// Register an interceptor for every call of this client, usually from a Nuxt plugin
+// Interceptors run in registration order; returns a function that removes the interceptor
+export const addOpenApiInterceptor = (interceptor: OpenApiInterceptor): (() => void) => {
+  const interceptors = getInterceptors(useNuxtApp())
+  interceptors.push(interceptor)
+  return () => {
+    const index = interceptors.indexOf(interceptor)
+    if (index !== -1) interceptors.splice(index, 1)
+  }
+}
+
+export type OpenApiAuthOptions = {
+  // Cookie holding the token, the generator's cookieName by default
+  cookieName?: string
+  // Custom token source (e.g. a store), used instead of the cookie
+  getToken?: () => string | null | undefined | Promise<string | null | undefined>
+  // Authorization header value for a token, `Bearer <token>` by default
+  getAuthHeader?: (token: string) => string
+  // Credentials of the schema's security schemes by scheme name, e.g. an API key; bearer
+  // schemes (http bearer, oauth2, openIdConnect) send the token unless listed here
+  credentials?: Record<string, () => string | null | undefined | Promise<string | null | undefined>>
+  // Called once for concurrent 401 responses, which are then sent again with the new token.
+  // Resolve with the new token (stored in the cookie unless getToken is set), true to read the
+  // token again, or false when the session can't be refreshed. Call the refresh endpoint with
+  // $fetch: a method of this client waiting on its own refresh never resolves.
+  refresh?: () => Promise<string | boolean | null | undefined>
+  // Called when the refresh fails, before the 401 is thrown; clears the cookie by default
+  onLogout?: () => void | Promise<void>
+}
+
+type AuthState = {
+  options: OpenApiAuthOptions
+  // Cookie ref shared by the calls of a Nuxt app, so a refreshed token is read back immediately
+  cookie?: Ref<string | null | undefined>
+  // Refresh started by a 401 on a request sent with `token`, awaited by every 401 sent with it;
+  // kept once it fails, so late 401s don't refresh and log out again
+  refreshing?: { token: string | null; promise: Promise<string | null> }
+}
+
+// Auth state is kept on the Nuxt app, like interceptors
+const AUTH_KEY = Symbol.for(`${QUERY_KEY_PREFIX}:auth`)
+
+const getAuthState = (nuxtApp: object): AuthState => {
+  const registry = nuxtApp as Record<symbol, AuthState | undefined>
+  return (registry[AUTH_KEY] ||= { options: {} })
+}
+
+// Create the token cookie ref unless getToken replaces it; needs the Nuxt context,
+// so it runs when auth is configured or the composable is set up rather than in calls
+const useAuthCookie = (state: AuthState): void => {
+  if (!state.options.getToken) {
+    state.cookie ||= useCookie<string | null | undefined>(state.options.cookieName || AUTH_COOKIE_NAME)
+  }
+}
+
+// Configure the auth token source, its refresh and logout for every call of this client,
+// usually from a Nuxt plugin
+export const configureOpenApiAuth = (options: OpenApiAuthOptions): void => {
+  const state = getAuthState(useNuxtApp())
+  state.options = options
+  state.cookie = undefined
+  state.refreshing = undefined
+  useAuthCookie(state)
+}
+
+const getAuthToken = async (state: AuthState): Promise<string | null> => {
+  const token = state.options.getToken ? await state.options.getToken() : state.cookie?.value
+  return token || null
+}
+
+// Refresh the token once for all 401 responses to requests sent with `failedToken`; resolves
+// with the new token, or null after logging out when the refresh fails
+const refreshAuthToken = (state: AuthState, failedToken: string | null): Promise<string | null> => {
+  const { refresh, onLogout } = state.options
+  if (!refresh) return Promise.resolve(null)
+  if (state.refreshing?.token === failedToken) return state.refreshing.promise
+
+  const entry: NonNullable<AuthState['refreshing']> = { token: failedToken, promise: Promise.resolve(null) }
+  entry.promise = (async (): Promise<string | null> => {
+    try {
+      const result = await refresh()
+      const token = typeof result === 'string' ? result : result ? await getAuthToken(state) : null
+      if (token) {
+        if (typeof result === 'string' && state.cookie) state.cookie.value = token
+        // Later 401s to requests sent with the old token read the new one instead
+        if (state.refreshing === entry) state.refreshing = undefined
+        return token
+      }
+    } catch (error) {
+      console.error('Token refresh failed:', error)
+    }
+
+    if (onLogout) {
+      await onLogout()
+    } else if (state.cookie) {
+      state.cookie.value = null
+    }
+    return null
+  })()
+
+  state.refreshing = entry
+  return entry.promise
+}
+
+// Credential of a security scheme: its `credentials` getter, or the token for bearer schemes
+const getCredential = async (
+  state: AuthState,
+  name: string,
+  credential: OpenApiSecurityCredential,
+  token: string | null
+): Promise<string | null> => {
+  const getter = state.options.credentials?.[name]
+  if (getter) return (await getter()) || null
+  return credential.type === 'bearer' ? token : null
+}
+
+// Headers and query parameters sending the first security requirement whose credentials are
+// all available; nothing when none is, so the API answers 401. An empty requirement (anonymous
+// access) is only used when no other requirement is available.
+const resolveCredentials = async (
+  state: AuthState,
+  security: OpenApiSecurityRequirement[],
+  token: string | null,
+  toAuthHeader: (token: string) => string
+): Promise<{ headers: Record<string, string>; query: Record<string, string> }> => {
+  const requirements = security.filter(requirement => Object.keys(requirement).length > 0)
+  for (const requirement of requirements) {
+    const entries = Object.entries(requirement)
+    const values = await Promise.all(
+      entries.map(([name, credential]) => getCredential(state, name, credential, token))
+    )
+    if (values.some(value => !value)) continue
+
+    const headers: Record<string, string> = {}
+    const query: Record<string, string> = {}
+    entries.forEach(([, credential], index) => {
+      const value = values[index] as string
+      if (credential.type === 'bearer') {
+        headers.Authorization = toAuthHeader(value)
+      } else if (credential.type === 'http') {
+        headers.Authorization = `${credential.scheme.charAt(0).toUpperCase()}${credential.scheme.slice(1)} ${value}`
+      } else if (credential.in === 'header') {
+        headers[credential.name] = value
+      } else if (credential.in === 'query') {
+        query[credential.name] = value
+      } else if (import.meta.server) {
+        // Browsers send their cookies themselves
+        headers.Cookie = [headers.Cookie, `${credential.name}=${encodeURIComponent(value)}`].filter(Boolean).join('; ')
+      }
+    })
+    return { headers, query }
+  }
+
+  return { headers: {}, query: {} }
+}
+
+// When and how often a failed request is sent again; false disables retries
+export type OpenApiRetryPolicy = {
+  // Attempts including the first request
+  attempts?: number
+  // Delay before the first retry in ms, doubled for each further retry
+  delay?: number
+  // Longest delay in ms; a longer Retry-After fails the request
+  maxDelay?: number
+  // Randomize each delay between half and all of it
+  jitter?: boolean
+  // Response statuses that are retried; network errors and timeouts always are
+  statusCodes?: number[]
+  // HTTP methods that are retried
+  methods?: string[]
+}
+
+// One retry, for idempotent methods only
+const DEFAULT_RETRY_POLICY: Required<OpenApiRetryPolicy> = {
+  attempts: 2,
+  delay: 500,
+  maxDelay: 10000,
+  jitter: true,
+  statusCodes: [408, 425, 429, 500, 502, 503, 504],
+  methods: ['GET', 'PUT', 'DELETE']
+}
+
+// Later policies override earlier ones field by field; false allows a single attempt
+const mergeRetryPolicies = (...policies: Array<OpenApiRetryPolicy | false | undefined>): OpenApiRetryPolicy =>
+  policies.reduce<OpenApiRetryPolicy>(
+    (merged, policy) => (policy === false ? { ...merged, attempts: 1 } : { ...merged, ...policy }),
+    {}
+  )
+
+// The global retry policy is kept on the Nuxt app, like interceptors
+const RETRY_KEY = Symbol.for(`${QUERY_KEY_PREFIX}:retry`)
+
+const getRetryPolicy = (nuxtApp: object): OpenApiRetryPolicy | false | undefined =>
+  (nuxtApp as Record<symbol, OpenApiRetryPolicy | false | undefined>)[RETRY_KEY]
+
+// Set the retry policy of every call of this client, usually from a Nuxt plugin
+// Resource policies, x-retry extensions and the `retry` option of a call override it
+export const configureOpenApiRetry = (policy: OpenApiRetryPolicy | false): void => {
+  (useNuxtApp() as unknown as Record<symbol, OpenApiRetryPolicy | false>)[RETRY_KEY] = policy
+}
+
+// Retry-After in ms, from seconds or an HTTP date
+const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Delay before retrying a failed attempt, or undefined when the error isn't retried:
+// the Retry-After of 429 and 503 responses, or an exponential backoff
+const getRetryDelay = (error: unknown, attempt: number, policy: Required<OpenApiRetryPolicy>): number | undefined => {
+  const { response, cause } = error as FetchErrorLike
+  if (response ? !policy.statusCodes.includes(response.status) : cause?.name === 'AbortError') return undefined
+
+  if (response && (response.status === 429 || response.status === 503)) {
+    const retryAfter = parseRetryAfter(response.headers?.get('retry-after'))
+    if (retryAfter !== undefined) return retryAfter <= policy.maxDelay ? retryAfter : undefined
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.delay * 2 ** (attempt - 1))
+  return policy.jitter ? backoff / 2 + Math.random() * backoff / 2 : backoff
+}
+
+// Error thrown by every failed call; statusCode and statusMessage are those of Nuxt errors,
+// statusCode is 500 when the request got no response
+export type OpenApiError = Error & {
+  kind: 'http' | 'network' | 'timeout' | 'abort'
+  // HTTP status, undefined when the request got no response
+  status?: number
+  statusCode: number
+  statusMessage: string
+  // Error response body, as the API sent it
+  data?: unknown
+  endpoint: OpenApiEndpoint
+}
+
+// Errors of an endpoint: its error responses by status, or a request without a response
+export type ApiError<T extends keyof paths, M extends keyof paths[T]> = OpenApiError & (
+  | ([ApiHttpError<T, M>] extends [never]
+    ? { kind: 'http'; status: number; data: unknown }
+    : ApiHttpError<T, M>)
+  | { kind: 'network' | 'timeout' | 'abort'; status: undefined; data: undefined }
+)
+
+// Marks the errors thrown by this client
+const API_ERROR_KEY = Symbol.for(`${QUERY_KEY_PREFIX}:error`)
+
+// Narrow a caught error to the errors of an endpoint
+export const isApiError = <TPath extends keyof paths, TMethod extends keyof paths[TPath]>(
+  error: unknown,
+  path: TPath,
+  method: TMethod
+): error is ApiError<TPath, TMethod> => {
+  if (!error || typeof error !== 'object' || !(API_ERROR_KEY in error)) return false
+  const { endpoint } = error as { endpoint?: OpenApiEndpoint }
+  return endpoint?.path === path && endpoint.method === method
 }
 
 interface ApiCallOptions {
@@ -81,18 +483,31 @@ interface ApiCallOptions {
   query?: Record<string, string | number | boolean | undefined>
   headers?: Record<string, string>
   server?: boolean // Force server-side execution
+  endpoint?: OpenApiEndpoint // Endpoint passed to interceptors, the endpoint and method by default
+  retry?: OpenApiRetryPolicy | false // Overrides the global retry policy
 }
 
-interface ApiError {
+interface FetchErrorLike {
   response?: {
     status: number
-    _data?: {
-      message?: string
-    }
+    headers?: Headers
+    _data?: unknown
+  }
+  cause?: {
+    name?: string
   }
 }
 
 export const useOpenApi = () => {
+  // The Nuxt app, captured while the composable is set up (calls may run after an await)
+  let nuxtApp: object | undefined
+  try {
+    nuxtApp = useNuxtApp()
+    useAuthCookie(getAuthState(nuxtApp))
+  } catch {
+    nuxtApp = undefined
+  }
+
   // Get the API path prefix from runtime config
   const getApiPrefix = (): string => {
     try {
@@ -111,21 +526,25 @@ export const useOpenApi = () => {
   }
 
   // Helper to create errors (Nuxt-aware with fallback)
-  const throwError = (statusCode: number, statusMessage: string): never => {
+  const throwError = (
+    statusMessage: string,
+    fields: Pick<OpenApiError, 'kind' | 'status' | 'data' | 'endpoint'>
+  ): never => {
+    const statusCode = fields.status ?? 500
     // Try to use Nuxt's createError if available, else fallback
-    if (typeof createError === 'function') {
-      throw createError({
-        statusCode,
-        statusMessage
-      })
-    }
-    // Fallback to standard Error if createError is not available
-    const error = new Error(statusMessage) as Error & { statusCode?: number }
-    error.statusCode = statusCode
-    throw error
+    const error = typeof createError === 'function'
+      ? createError({ statusCode, statusMessage, data: fields.data })
+      // Fallback to standard Error if createError is not available
+      : Object.assign(new Error(statusMessage), { statusCode, statusMessage })
+    throw Object.assign(error, fields, { [API_ERROR_KEY]: true })
   }
 
   // Main API call function - now uses Nuxt proxy
+  // Requests pass through the registered interceptors: onRequest before $fetch,
+  // then onResponse with the response or onError with the error
+  // Credentials follow the endpoint's security requirements, or the auth token without any;
+  // unless the caller sets Authorization, a 401 on an endpoint using the token refreshes it
+  // and sends the request once more before the error reaches onError
   const apiCall = async <T>(
     endpoint: string,
     options: ApiCallOptions = {}
@@ -137,22 +556,55 @@ export const useOpenApi = () => {
       headers = {}
     } = options
 
-    try {
-      const prefix = getApiPrefix()
-
-      // Build the full URL with optional prefix
-      let url = endpoint
-      if (prefix) {
-        // Remove leading slash from endpoint if present to avoid double slashes
-        const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint
-        url = `${prefix}/${cleanEndpoint}`
+    const prefix = getApiPrefix()
+
+    // Build the full URL with optional prefix
+    let url = endpoint
+    if (prefix) {
+      // Remove leading slash from endpoint if present to avoid double slashes
+      const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint
+      url = `${prefix}/${cleanEndpoint}`
+    }
+
+    const interceptors = nuxtApp ? [...getInterceptors(nuxtApp)] : []
+    const auth = nuxtApp ? getAuthState(nuxtApp) : undefined
+    const toAuthHeader = (token: string): string =>
+      auth?.options.getAuthHeader ? auth.options.getAuthHeader(token) : `Bearer ${token}`
+    const security = options.endpoint?.security
+    const usesToken = !security || security.some(requirement =>
+      Object.values(requirement).some(credential => credential.type === 'bearer')
+    )
+    const token = auth && usesToken ? await getAuthToken(auth) : null
+    const credentials = auth && security
+      ? await resolveCredentials(auth, security, token, toAuthHeader)
+      : { headers: token ? { Authorization: toAuthHeader(token) } : {}, query: {} }
+
+    const context: OpenApiRequestContext = {
+      endpoint: options.endpoint || { path: endpoint, method: method.toLowerCase() },
+      url,
+      options: {
+        method,
+        body,
+        query: Object.keys(credentials.query).length > 0 ? { ...credentials.query, ...query } : query,
+        headers: {
+          'Content-Type': headers['Content-Type'] || (method.toUpperCase() === 'PATCH' ? 'application/merge-patch+json' : 'application/json'),
+          ...credentials.headers,
+          ...headers
+        }
       }
+    }
+
+    for (const interceptor of interceptors) {
+      await interceptor.onRequest?.(context)
+    }
 
+    try {
       // Serialize query parameters manually to handle arrays with brackets
-      let finalUrl = url
-      if (query && Object.keys(query).length > 0) {
+      let finalUrl = context.url
+      const requestQuery = context.options.query
+      if (requestQuery && Object.keys(requestQuery).length > 0) {
         const searchParams = new URLSearchParams()
-        Object.entries(query).forEach(([key, value]) => {
+        Object.entries(requestQuery).forEach(([key, value]) => {
           if (Array.isArray(value)) {
             value.forEach(v => searchParams.append(`${key}[]`, String(v)))
           } else if (value !== undefined && value !== null) {
@@ -162,42 +614,95 @@ export const useOpenApi = () => {
         const queryString = searchParams.toString()
         if (queryString) {
           // Check if URL already has query parameters
-          const separator = url.includes('?') ? '&' : '?'
-          finalUrl = `${url}${separator}${queryString}`
+          const separator = finalUrl.includes('?') ? '&' : '?'
+          finalUrl = `${finalUrl}${separator}${queryString}`
         }
       }
 
-      const response = await $fetch<T>(finalUrl, {
-        method,
-        body,
-        headers: {
-          'Content-Type': headers['Content-Type'] || (method.toUpperCase() === 'PATCH' ? 'application/merge-patch+json' : 'application/json'),
-          ...headers
-        },
-        // Nuxt-specific options
-        retry: 1,
-        timeout: 10000
-      })
+      // Failed attempts are retried following the retry policy, for its methods only
+      const retryPolicy = {
+        ...DEFAULT_RETRY_POLICY,
+        ...mergeRetryPolicies(nuxtApp && getRetryPolicy(nuxtApp), options.retry)
+      }
+      const send = async (): Promise<unknown> => {
+        const methods = retryPolicy.methods.map(retryMethod => retryMethod.toUpperCase())
+        const attempts = methods.includes(context.options.method.toUpperCase()) ? retryPolicy.attempts : 1
+        for (let attempt = 1; ; attempt++) {
+          try {
+            return await $fetch<T>(finalUrl, {
+              method: context.options.method,
+              body: context.options.body,
+              headers: context.options.headers,
+              // Nuxt-specific options
+              retry: false,
+              timeout: 10000
+            })
+          } catch (error: unknown) {
+            const delay = attempt < attempts ? getRetryDelay(error, attempt, retryPolicy) : undefined
+            if (delay === undefined) throw error
+            await new Promise(resolve => setTimeout(resolve, delay))
+          }
+        }
+      }
+
+      try {
+        context.response = await send()
+      } catch (error: unknown) {
+        // Only the token sent by this client is refreshed, not an Authorization set by the caller
+        if (!auth?.options.refresh || !usesToken || headers.Authorization) throw error
+        if ((error as FetchErrorLike).response?.status !== 401) throw error
+
+        // Another request may have refreshed the token since this one was sent
+        const current = await getAuthToken(auth)
+        const refreshed = current && current !== token ? current : await refreshAuthToken(auth, token)
+        if (!refreshed) throw error
 
-      return response as T
+        context.options.headers.Authorization = toAuthHeader(refreshed)
+        context.response = await send()
+      }
     } catch (error: unknown) {
+      context.error = error
+      for (const interceptor of interceptors) {
+        await interceptor.onError?.(context as OpenApiRequestContext & { error: unknown })
+      }
+
+      // An onError interceptor recovered with a response
+      if ('response' in context) {
+        return context.response as T
+      }
+
       // Error handling - projects can catch and handle these errors as needed
-      const apiError = error as ApiError
-      if (apiError.response) {
-        const statusCode = apiError.response.status
-        const errorMessage = apiError.response._data?.message || 'API Error'
+      const { response, cause } = context.error as FetchErrorLike
+      if (response) {
+        const data = response._data
+        // problem+json bodies carry detail and title instead of message
+        const body = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>
+        const errorMessage = [body.message, body.detail, body.title].find(value => typeof value === 'string' && value)
 
         // Log the error for debugging
-        console.error(`API Error ${statusCode}:`, apiError.response._data)
+        console.error(`API Error ${response.status}:`, data)
 
-        // Throw error with status code and message
-        return throwError(statusCode, errorMessage)
+        // Throw error with status code, message and the original body
+        return throwError((errorMessage as string | undefined) || 'API Error', {
+          kind: 'http',
+          status: response.status,
+          data,
+          endpoint: context.endpoint
+        })
       }
 
-      // Network or unknown error
-      console.error('API Call failed:', error)
-      return throwError(500, 'Network Error')
+      // No response: the request timed out, was aborted or failed on the network
+      const kind = cause?.name === 'TimeoutError' ? 'timeout' : cause?.name === 'AbortError' ? 'abort' : 'network'
+      console.error('API Call failed:', context.error)
+      const messages = { network: 'Network Error', timeout: 'Request Timeout', abort: 'Request Aborted' }
+      return throwError(messages[kind], { kind, status: undefined, data: undefined, endpoint: context.endpoint })
     }
+
+    for (const interceptor of interceptors) {
+      await interceptor.onResponse?.(context as OpenApiRequestContext & { response: unknown })
+    }
+
+    return context.response as T
   }
 
   // Typed API call with path inference
@@ -214,6 +719,9 @@ export const useOpenApi = () => {
       body?: ApiRequestBody<TPath, TMethod>
       headers?: Record<string, string>
       server?: boolean
+      operationId?: string
+      security?: OpenApiSecurityRequirement[]
+      retry?: OpenApiRetryPolicy | false
     } = {}
   ): Promise<ApiResponse<TPath, TMethod, ContentType>> => {
     // Build the URL with path parameters
@@ -231,17 +739,30 @@ export const useOpenApi = () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       query: options.query as Record<string, any>,
       headers: options.headers,
-      server: options.server
+      server: options.server,
+      retry: options.retry,
+      endpoint: {
+        path: path as string,
+        method: method as string,
+        operationId: options.operationId,
+        security: options.security
+      }
     })
   }
 
   // Helper function to create typed API methods
   const createApiMethod = <T extends EndpointConfig>(config: T) => {
-    return (options: {
+    return async (options: {
       params?: ApiPathParams<T['path'], T['method']>
       query?: ApiQueryParams<T['path'], T['method']>
       body?: ApiRequestBody<T['path'], T['method']>
+      // Query keys to refresh instead of the `invalidates` defaults, or false to refresh none
+      invalidate?: string[] | false
+      // Retry policy of this call, over the endpoint's
+      retry?: OpenApiRetryPolicy | false
     } = {}) => {
+      const { invalidate, ...callOptions } = options
+
       // Use the provided contentType from config, or fall back to inferred type
       type ContentType = T['contentType'] extends 'application/json' | 'application/ld+json'
         ? T['contentType']
@@ -262,14 +783,63 @@ export const useOpenApi = () => {
         }
       }
 
-      return typedApiCall<
+      const response = await typedApiCall<
         T['path'],
         T['method'],
         ContentType
       >(config.path, config.method, {
-        ...options,
-        headers
+        ...callOptions,
+        headers,
+        operationId: config.operationId,
+        security: config.security,
+        retry: mergeRetryPolicies(config.retry, callOptions.retry)
       })
+
+      const keys = invalidate === undefined
+        ? getInvalidatedKeys(config.invalidates || [], callOptions.params)
+        : invalidate || []
+      await invalidateQueries(keys)
+
+      return response
+    }
+  }
+
+  // Refresh the loaded query data matching the keys (and their query variants)
+  const invalidateQueries = async (keys: string[]): Promise<void> => {
+    if (!import.meta.client || keys.length === 0) return
+
+    const loadedKeys = Object.keys(useNuxtApp().payload.data)
+    const matched = loadedKeys.filter(key => keys.some(target => matchesQueryKey(key, target)))
+    if (matched.length > 0) {
+      await refreshNuxtData(matched)
+    }
+  }
+
+  // Helper function to create reactive query composables from GET methods
+  // Params and query accept refs or getters; the key follows them, so a change refetches
+  // and every set of arguments keeps its own cache entry and SSR payload
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const createQueryMethod = <TMethod extends (options?: any) => Promise<unknown>>(
+    method: TMethod,
+    path: string
+  ) => {
+    type TOptions = NonNullable<Parameters<TMethod>[0]>
+    type TResult = Awaited<ReturnType<TMethod>>
+
+    return (
+      options: {
+        params?: MaybeRefOrGetter<TOptions['params']>
+        query?: MaybeRefOrGetter<TOptions['query']>
+      } = {},
+      asyncDataOptions: AsyncDataOptions<TResult> = {}
+    ) => {
+      const resolveOptions = (): TOptions => ({
+        params: toValue(options.params),
+        query: toValue(options.query)
+      }) as TOptions
+      const key = computed(() => getQueryKey(path, resolveOptions()))
+
+      return useAsyncData(key, () => method(resolveOptions()) as Promise<TResult>, asyncDataOptions)
     }
   }
 
@@ -277,6 +847,9 @@ export const useOpenApi = () => {
     apiCall,
     typedApiCall,
     createApiMethod,
+    createQueryMethod,
+    getQueryKey,
+    invalidateQueries,
     getApiPrefix
   }
 }
@@ -0,0 +1,105 @@
+/**
+ * TanStack Vue Query hooks for the methods of useOpenApi
+ *
+ * Requires @tanstack/vue-query, with VueQueryPlugin installed by a Nuxt plugin:
+ *
+ * export default defineNuxtPlugin((nuxtApp) => {
+ *   nuxtApp.vueApp.use(VueQueryPlugin, { queryClient: new QueryClient() })
+ * })
+ */
+import { computed, toValue } from 'vue'
+import type { MaybeRefOrGetter } from 'vue'
+import { queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/vue-query'
+import type { MutationOptions, UseQueryOptions } from '@tanstack/vue-query'
+import { getQueryKey } from './useOpenApi'
+
+// A method from createApiMethod; its options and result are the ApiPathParams, ApiQueryParams,
+// ApiRequestBody and ApiResponse types of its endpoint, so hooks keep the exact schema types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ApiMethod = (options?: any) => Promise<unknown>
+type ApiMethodOptions<TMethod extends ApiMethod> = NonNullable<Parameters<TMethod>[0]>
+type ApiMethodResult<TMethod extends ApiMethod> = Awaited<ReturnType<TMethod>>
+
+// Options of a query hook; params and query accept refs or getters
+type QueryArgs<TMethod extends ApiMethod> = {
+  params?: MaybeRefOrGetter<ApiMethodOptions<TMethod>['params']>
+  query?: MaybeRefOrGetter<ApiMethodOptions<TMethod>['query']>
+}
+
+// A key matches itself and its variants with a query
+const matchesQueryKey = (key: unknown, target: string): boolean =>
+  typeof key === 'string' && (key === target || key.startsWith(`${target}:`))
+
+export const useOpenApiVueQuery = () => {
+  const queryClient = useQueryClient()
+
+  // Invalidate the queries matching the keys (and their query variants)
+  const invalidateQueries = async (keys: string[]): Promise<void> => {
+    if (keys.length === 0) return
+
+    await queryClient.invalidateQueries({
+      predicate: query => keys.some(target => matchesQueryKey(query.queryKey[0], target))
+    })
+  }
+
+  // Helper function to create TanStack query options from GET methods
+  // Query keys are the getQueryKey of the arguments, the same keys as the generated key factories
+  const createQueryOptions = <TMethod extends ApiMethod>(method: TMethod, path: string) => {
+    return (options: QueryArgs<TMethod> = {}) => {
+      const resolveOptions = (): ApiMethodOptions<TMethod> => ({
+        params: toValue(options.params),
+        query: toValue(options.query)
+      }) as ApiMethodOptions<TMethod>
+
+      return queryOptions({
+        queryKey: computed(() => [getQueryKey(path, resolveOptions())]),
+        queryFn: () => method(resolveOptions()) as Promise<ApiMethodResult<TMethod>>
+      })
+    }
+  }
+
+  // Helper function to create useQuery hooks from GET methods
+  // The second argument accepts the other useQuery options (enabled, staleTime, refetchInterval, ...)
+  const createQuery = <TMethod extends ApiMethod>(method: TMethod, path: string) => {
+    type TResult = ApiMethodResult<TMethod>
+    const getOptions = createQueryOptions(method, path)
+
+    return (
+      options: QueryArgs<TMethod> = {},
+      useQueryOptions: Omit<UseQueryOptions<TResult, Error, TResult, TResult, string[]>, 'queryKey' | 'queryFn'> = {}
+    ) => useQuery({ ...useQueryOptions, ...getOptions(options) } as UseQueryOptions<TResult, Error, TResult, TResult, string[]>)
+  }
+
+  // Helper function to create useMutation hooks from write methods
+  // On success, the `invalidates` paths filled with the call's params are invalidated, unless the
+  // call passes its own `invalidate` keys (or false)
+  const createMutation = <TMethod extends ApiMethod>(method: TMethod, invalidates: string[] = []) => {
+    type TResult = ApiMethodResult<TMethod>
+    type TVariables = ApiMethodOptions<TMethod>
+
+    return (
+      mutationOptions: Omit<MutationOptions<TResult, Error, TVariables>, 'mutationFn'> = {}
+    ) => useMutation<TResult, Error, TVariables>({
+      ...mutationOptions,
+      mutationFn: ({ invalidate: _invalidate, ...options }: TVariables) =>
+        method(options) as Promise<TResult>,
+      onSuccess: async (...args) => {
+        const [, variables] = args
+        const keys = variables.invalidate === undefined
+          ? invalidates
+            .map(path => getQueryKey(path, { params: variables.params }))
+            .filter(key => !/\{[^}]+\}/.test(key))
+          : variables.invalidate || []
+        await invalidateQueries(keys)
+        return mutationOptions.onSuccess?.(...args)
+      }
+    })
+  }
+
+  return {
+    createQueryOptions,
+    createQuery,
+    createMutation,
+    invalidateQueries
+  }
+}
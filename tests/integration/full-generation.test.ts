@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest'
-import { mkdirSync, rmSync, existsSync, readFileSync } from 'node:fs'
+import { mkdirSync, rmSync, existsSync, readFileSync, writeFileSync } from 'node:fs'
 import { join } from 'node:path'
 import { generateComposables } from '../../src/core/generator'
 import type { GeneratorConfig } from '../../src/core/types'
@@ -105,6 +105,38 @@ describe('Full Generation Integration', () => {
     expect(habitsContent).toContain("path: '/api/habits/{id}/streak'")
   })
 
+  it('generates composables from a multi-file YAML schema', async () => {
+    const config: GeneratorConfig = {
+      schemaPath: join(process.cwd(), 'tests', 'fixtures', 'multi-file', 'openapi.yaml'),
+      outputDir: join(tempDir, 'yaml-composables'),
+      generateTypes: false
+    }
+
+    await generateComposables(config)
+
+    const tasksContent = readFileSync(join(config.outputDir, 'useTasksApi.ts'), 'utf-8')
+    expect(tasksContent).toContain('getTasksApi')
+    expect(tasksContent).toContain('postTasksApi')
+    expect(tasksContent).toContain('getTaskApi')
+    expect(tasksContent).toContain('deleteTaskApi')
+  })
+
+  it('generates composables from a Swagger 2.0 schema', async () => {
+    const config: GeneratorConfig = {
+      schemaPath: join(process.cwd(), 'tests', 'fixtures', 'swagger-api.yaml'),
+      outputDir: join(tempDir, 'swagger-composables'),
+      generateTypes: false
+    }
+
+    await generateComposables(config)
+
+    const goalsContent = readFileSync(join(config.outputDir, 'useGoalsApi.ts'), 'utf-8')
+    expect(goalsContent).toContain('getGoalsApi')
+    expect(goalsContent).toContain('postGoalsApi')
+    expect(goalsContent).toContain('patchGoalApi')
+    expect(goalsContent).toContain("contentType: 'application/merge-patch+json'")
+  })
+
   it('throws error for non-existent schema file', async () => {
     const config: GeneratorConfig = {
       schemaPath: './non-existent-schema.json',
@@ -115,6 +147,163 @@ describe('Full Generation Integration', () => {
     await expect(generateComposables(config)).rejects.toThrow()
   })
 
+  it('applies naming hooks to methods, composables and files', async () => {
+    const config: GeneratorConfig = {
+      schemaPath,
+      outputDir: join(tempDir, 'hooked-composables'),
+      generateTypes: false,
+      naming: {
+        method: ({ method, defaultName }) =>
+          method === 'get' ? defaultName.replace(/^get(.*)Api$/, 'fetch$1') : undefined,
+        composable: ({ defaultName }) => defaultName.replace(/Api$/, '')
+      }
+    }
+
+    await generateComposables(config)
+
+    const tasksContent = readFileSync(join(config.outputDir, 'useTasks.ts'), 'utf-8')
+    expect(tasksContent).toContain('export const useTasks = () => {')
+    expect(tasksContent).toContain('const fetchTask = createApiMethod({')
+    expect(tasksContent).toContain('const postTasksApi = createApiMethod({')
+  })
+
+  it('leaves filtered operations out of the generated composables', async () => {
+    const config: GeneratorConfig = {
+      schemaPath,
+      outputDir: join(tempDir, 'filtered-composables'),
+      generateTypes: false,
+      include: { tags: ['Tasks', 'Habits'] },
+      exclude: { methods: ['delete'], paths: ['/api/habits/**'] }
+    }
+
+    await generateComposables(config)
+
+    expect(existsSync(join(config.outputDir, 'useGoalsApi.ts'))).toBe(false)
+    expect(existsSync(join(config.outputDir, 'useHabitsApi.ts'))).toBe(false)
+
+    const tasksContent = readFileSync(join(config.outputDir, 'useTasksApi.ts'), 'utf-8')
+    expect(tasksContent).toContain('getTaskApi')
+    expect(tasksContent).not.toContain('deleteTaskApi')
+  })
+
+  it('removes composables that are no longer generated', async () => {
+    const config: GeneratorConfig = {
+      schemaPath,
+      outputDir: join(tempDir, 'stale-composables'),
+      generateTypes: false
+    }
+
+    await generateComposables(config)
+    writeFileSync(join(config.outputDir, 'useCustomApi.ts'), 'export const useCustomApi = () => ({})')
+    expect(existsSync(join(config.outputDir, '.openapi-composables.json'))).toBe(true)
+
+    await generateComposables({ ...config, exclude: { tags: ['Goals'] } })
+
+    expect(existsSync(join(config.outputDir, 'useGoalsApi.ts'))).toBe(false)
+    expect(existsSync(join(config.outputDir, 'useTasksApi.ts'))).toBe(true)
+    expect(existsSync(join(config.outputDir, 'useOpenApi.ts'))).toBe(true)
+    expect(existsSync(join(config.outputDir, 'useCustomApi.ts'))).toBe(true)
+  })
+
+  it('detects drift in check mode without writing', async () => {
+    const config: GeneratorConfig = {
+      schemaPath,
+      outputDir: join(tempDir, 'checked-composables'),
+      generateTypes: true,
+      typesOutputPath: join(tempDir, 'checked-types', 'api.ts')
+    }
+
+    // Nothing generated yet
+    await expect(generateComposables({ ...config, check: true })).rejects.toThrow(
+      'Generated files are out of date'
+    )
+    expect(existsSync(config.outputDir)).toBe(false)
+
+    await generateComposables(config)
+    expect(readFileSync(config.typesOutputPath!, 'utf-8')).toContain('export interface paths')
+    await expect(generateComposables({ ...config, check: true })).resolves.toBeUndefined()
+
+    const tasksPath = join(config.outputDir, 'useTasksApi.ts')
+    writeFileSync(tasksPath, 'edited by hand')
+    await expect(generateComposables({ ...config, check: true })).rejects.toThrow('1 file(s)')
+    expect(readFileSync(tasksPath, 'utf-8')).toBe('edited by hand')
+  })
+
+  it('writes nothing in dry-run mode', async () => {
+    const config: GeneratorConfig = {
+      schemaPath,
+      outputDir: join(tempDir, 'dry-run-composables'),
+      generateTypes: false,
+      dryRun: true
+    }
+
+    await generateComposables(config)
+
+    expect(existsSync(config.outputDir)).toBe(false)
+  })
+
+  it('fails on schema errors unless the threshold allows them', async () => {
+    const schemaPath = join(tempDir, 'invalid-api.json')
+    writeFileSync(
+      schemaPath,
+      JSON.stringify({
+        openapi: '3.1.0',
+        info: { title: 'Invalid API', version: '1.0.0' },
+        paths: { '/api/tasks/{id}': { get: { responses: { '200': { description: 'OK' } } } } }
+      })
+    )
+
+    const config: GeneratorConfig = {
+      schemaPath,
+      outputDir: join(tempDir, 'invalid-composables'),
+      generateTypes: false
+    }
+
+    await expect(generateComposables(config)).rejects.toThrow('Invalid OpenAPI schema')
+    await expect(
+      generateComposables({ ...config, validationFailOn: 'never' })
+    ).resolves.toBeUndefined()
+  })
+
+  it('generates isolated namespaced composables per client', async () => {
+    const clientsDir = join(tempDir, 'clients')
+    const writeClientSchema = (name: string, title: string) => {
+      const clientSchemaPath = join(clientsDir, `${name}.json`)
+      mkdirSync(clientsDir, { recursive: true })
+      writeFileSync(clientSchemaPath, JSON.stringify({
+        openapi: '3.1.0',
+        info: { title, version: '1.0.0' },
+        paths: { '/api/invoices': { get: { responses: { '200': { description: 'Success' } } } } }
+      }))
+      return clientSchemaPath
+    }
+
+    await generateComposables({
+      schemaPath,
+      outputDir: join(clientsDir, 'composables'),
+      typesOutputPath: join(clientsDir, 'types', 'api.ts'),
+      generateTypes: true,
+      clients: [
+        { name: 'billing', schemaPath: writeClientSchema('billing', 'Billing') },
+        { name: 'legacy', schemaPath: writeClientSchema('legacy', 'Legacy'), apiPrefix: '/legacy' }
+      ]
+    })
+
+    const billingDir = join(clientsDir, 'composables', 'billing')
+    const legacyDir = join(clientsDir, 'composables', 'legacy')
+    expect(readFileSync(join(billingDir, 'useBillingInvoicesApi.ts'), 'utf-8')).toContain(
+      "import { useBillingOpenApi } from './useBillingOpenApi'"
+    )
+    expect(readFileSync(join(billingDir, 'useBillingOpenApi.ts'), 'utf-8')).toContain(
+      "import type { paths } from '../../types/billing'"
+    )
+    expect(readFileSync(join(legacyDir, 'useLegacyOpenApi.ts'), 'utf-8')).toContain("return '/legacy'")
+    expect(existsSync(join(clientsDir, 'types', 'billing.ts'))).toBe(true)
+    expect(existsSync(join(clientsDir, 'types', 'legacy.ts'))).toBe(true)
+    expect(existsSync(join(billingDir, '.openapi-composables.json'))).toBe(true)
+    expect(existsSync(join(legacyDir, '.openapi-composables.json'))).toBe(true)
+  })
+
   it('throws error for missing required config', async () => {
     const config: any = {
       outputDir
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { resolveClientConfigs } from '../../src/core/clients'
+import type { GeneratorConfig } from '../../src/core/types'
+
+describe('Clients', () => {
+  const baseConfig: GeneratorConfig = {
+    schemaPath: '/project/schema/api.json',
+    outputDir: '/project/app/composables/api',
+    generateTypes: true,
+    typesOutputPath: '/project/app/types/api.ts',
+    typesImportPath: '~/types/api',
+    cookieName: 'authToken',
+    naming: { strategy: 'hybrid' }
+  }
+
+  describe('resolveClientConfigs', () => {
+    it('returns the config itself without clients', () => {
+      expect(resolveClientConfigs(baseConfig)).toEqual([baseConfig])
+    })
+
+    it('derives isolated outputs and namespaces from the client name', () => {
+      const [billing] = resolveClientConfigs({
+        ...baseConfig,
+        clients: [{ name: 'billing', schemaPath: '/project/schema/billing.yaml', apiPrefix: '/billing' }]
+      })
+
+      expect(billing).toEqual({
+        schemaPath: '/project/schema/billing.yaml',
+        outputDir: '/project/app/composables/api/billing',
+        generateTypes: true,
+        typesOutputPath: '/project/app/types/billing.ts',
+        typesImportPath: '../../../types/billing',
+        cookieName: 'authToken',
+        apiPrefix: '/billing',
+        naming: { strategy: 'hybrid', namespace: 'billing' }
+      })
+    })
+
+    it('keeps paths and options set on the client', () => {
+      const [search] = resolveClientConfigs({
+        ...baseConfig,
+        clients: [
+          {
+            name: 'search',
+            schemaPath: 'https://search.example.com/openapi.json',
+            outputDir: '/project/app/composables/search',
+            typesOutputPath: '/project/app/composables/search/types.ts',
+            naming: { strategy: 'operationId' },
+            grouping: { groupBy: 'tag' }
+          }
+        ]
+      })
+
+      expect(search.outputDir).toBe('/project/app/composables/search')
+      expect(search.typesImportPath).toBe('./types')
+      expect(search.naming).toEqual({ strategy: 'operationId', namespace: 'search' })
+      expect(search.grouping).toEqual({ groupBy: 'tag' })
+      expect(search.clients).toBeUndefined()
+    })
+
+    it('rejects invalid, duplicate and colliding clients', () => {
+      const resolve = (clients: GeneratorConfig['clients']) => () =>
+        resolveClientConfigs({ ...baseConfig, clients })
+
+      expect(resolve([{ name: 'billing api', schemaPath: 'a.json' }])).toThrow('Invalid client name')
+      expect(
+        resolve([
+          { name: 'billing', schemaPath: 'a.json' },
+          { name: 'Billing', schemaPath: 'b.json' }
+        ])
+      ).toThrow('Duplicate client name "Billing"')
+      expect(resolve([{ name: 'billing', schemaPath: '' }])).toThrow('Client "billing" has no schemaPath')
+      expect(
+        resolve([
+          { name: 'core', schemaPath: 'a.json', outputDir: '/project/api' },
+          { name: 'billing', schemaPath: 'b.json', outputDir: '/project/api' }
+        ])
+      ).toThrow('Clients "core" and "billing" both write to /project/api')
+    })
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  defineConfig,
+  findConfigFile,
+  loadConfigFile,
+  mergeConfig,
+  resolveConfigPaths,
+  createConfigFileContent
+} from '../../src/core/config-loader'
+
+describe('Config Loader', () => {
+  const tempDir = join(process.cwd(), 'tests', 'temp-config')
+
+  beforeEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true })
+    }
+    mkdirSync(tempDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true })
+    }
+  })
+
+  describe('defineConfig', () => {
+    it('returns the config unchanged', () => {
+      const config = { schemaPath: './schema/api.yaml' }
+      expect(defineConfig(config)).toBe(config)
+    })
+  })
+
+  describe('findConfigFile', () => {
+    it('returns undefined without a config file', () => {
+      expect(findConfigFile(tempDir)).toBeUndefined()
+    })
+
+    it('prefers ts over mjs over json', () => {
+      writeFileSync(join(tempDir, 'openapi-composables.config.json'), '{}')
+      writeFileSync(join(tempDir, 'openapi-composables.config.mjs'), 'export default {}')
+      expect(findConfigFile(tempDir)).toBe(join(tempDir, 'openapi-composables.config.mjs'))
+
+      writeFileSync(join(tempDir, 'openapi-composables.config.ts'), 'export default {}')
+      expect(findConfigFile(tempDir)).toBe(join(tempDir, 'openapi-composables.config.ts'))
+    })
+  })
+
+  describe('loadConfigFile', () => {
+    it('returns undefined without a config file', async () => {
+      expect(await loadConfigFile(tempDir)).toBeUndefined()
+    })
+
+    it('loads a TypeScript config and resolves paths against its directory', async () => {
+      writeFileSync(
+        join(tempDir, 'openapi-composables.config.ts'),
+        [
+          "import type { UserConfig } from '../../src/core/types'",
+          '',
+          "const config: UserConfig = { schemaPath: './spec/api.yaml', outputDir: 'composables', generateTypes: true }",
+          'export default config',
+          ''
+        ].join('\n')
+      )
+
+      const loaded = await loadConfigFile(tempDir)
+
+      expect(loaded?.configFile).toBe(join(tempDir, 'openapi-composables.config.ts'))
+      expect(loaded?.config).toEqual({
+        schemaPath: join(tempDir, 'spec/api.yaml'),
+        outputDir: join(tempDir, 'composables'),
+        generateTypes: true
+      })
+    })
+
+    it('loads an explicit JSON config file', async () => {
+      mkdirSync(join(tempDir, 'config'))
+      writeFileSync(
+        join(tempDir, 'config', 'api.json'),
+        JSON.stringify({ schemaPath: 'https://api.example.com/docs.json', typesOutputPath: '../types/api.ts' })
+      )
+
+      const loaded = await loadConfigFile(tempDir, 'config/api.json')
+
+      expect(loaded?.config).toEqual({
+        schemaPath: 'https://api.example.com/docs.json',
+        typesOutputPath: join(tempDir, 'types/api.ts')
+      })
+    })
+
+    it('reports missing and invalid config files', async () => {
+      await expect(loadConfigFile(tempDir, 'missing.json')).rejects.toThrow('Config file not found')
+
+      writeFileSync(join(tempDir, 'openapi-composables.config.json'), '{ invalid')
+      await expect(loadConfigFile(tempDir)).rejects.toThrow('Failed to load config file')
+
+      writeFileSync(join(tempDir, 'openapi-composables.config.json'), '[]')
+      await expect(loadConfigFile(tempDir)).rejects.toThrow('must export an object')
+    })
+  })
+
+  describe('mergeConfig', () => {
+    it('lets later sources override earlier ones', () => {
+      const merged = mergeConfig(
+        { schemaPath: 'a.json', cookieName: 'authToken' },
+        undefined,
+        { schemaPath: 'b.json', cookieName: undefined }
+      )
+
+      expect(merged).toEqual({ schemaPath: 'b.json', cookieName: 'authToken' })
+    })
+
+    it('merges nested options key by key and replaces arrays and filters', () => {
+      const merged = mergeConfig(
+        {
+          schemaHeaders: { Authorization: 'Bearer a' },
+          grouping: { groupBy: 'tag', basePath: ['/api'] },
+          include: { tags: ['public'] }
+        },
+        {
+          schemaHeaders: { 'X-Env': 'staging' },
+          grouping: { basePath: ['/v{n}'], rules: undefined },
+          include: { methods: ['get'] }
+        }
+      )
+
+      expect(merged).toEqual({
+        schemaHeaders: { Authorization: 'Bearer a', 'X-Env': 'staging' },
+        grouping: { groupBy: 'tag', basePath: ['/v{n}'] },
+        include: { methods: ['get'] }
+      })
+    })
+  })
+
+  describe('resolveConfigPaths', () => {
+    it('resolves file paths and keeps other options', () => {
+      expect(
+        resolveConfigPaths(
+          { schemaPath: 'api.json', schemaCacheDir: '.cache', outputDir: 'out', typesImportPath: '~/types/api' },
+          '/project'
+        )
+      ).toEqual({
+        schemaPath: '/project/api.json',
+        schemaCacheDir: '/project/.cache',
+        outputDir: '/project/out',
+        typesImportPath: '~/types/api'
+      })
+    })
+  })
+
+  describe('createConfigFileContent', () => {
+    it('scaffolds a typed TypeScript config', () => {
+      const content = createConfigFileContent('ts')
+
+      expect(content).toContain("import { defineConfig } from '@habityzer/nuxt-openapi-composables'")
+      expect(content).toContain("schemaPath: './schema/api.json'")
+      expect(content).toContain('generateTypes: true')
+    })
+
+    it('scaffolds a JSON config that loads', async () => {
+      writeFileSync(join(tempDir, 'openapi-composables.config.json'), createConfigFileContent('json'))
+
+      const loaded = await loadConfigFile(tempDir)
+
+      expect(loaded?.config.outputDir).toBe(join(tempDir, 'app/composables/api'))
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest'
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { createUnifiedDiff, detectDrift } from '../../src/core/diff'
+
+describe('Diff', () => {
+  describe('createUnifiedDiff', () => {
+    it('returns an empty string for equal content', () => {
+      expect(createUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('')
+    })
+
+    it('creates hunks with context lines', () => {
+      const oldContent = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n') + '\n'
+      const newContent = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', '10', '11'].join('\n') + '\n'
+
+      expect(
+        createUnifiedDiff(oldContent, newContent, { oldLabel: 'a/file.ts', newLabel: 'b/file.ts' })
+      ).toBe(
+        [
+          '--- a/file.ts',
+          '+++ b/file.ts',
+          '@@ -2,9 +2,10 @@',
+          ' 2',
+          ' 3',
+          ' 4',
+          '-5',
+          '+five',
+          ' 6',
+          ' 7',
+          ' 8',
+          ' 9',
+          ' 10',
+          '+11',
+          ''
+        ].join('\n')
+      )
+    })
+
+    it('splits distant changes into separate hunks', () => {
+      const oldLines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`)
+      const newLines = [...oldLines]
+      newLines[1] = 'changed 2'
+      newLines[17] = 'changed 18'
+
+      const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'))
+      expect(diff.match(/^@@.*@@$/gm)).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@'])
+    })
+
+    it('replaces large rewrites as a whole', () => {
+      const oldLines = Array.from({ length: 2500 }, (_, index) => `old ${index}`)
+      const newLines = Array.from({ length: 2500 }, (_, index) => `new ${index}`)
+
+      const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'))
+      expect(diff.match(/^@@.*@@$/gm)).toEqual(['@@ -1,2500 +1,2500 @@'])
+      expect(diff.split('\n').filter(line => line.startsWith('-old')).length).toBe(2500)
+    })
+
+    it('diffs against empty content', () => {
+      expect(createUnifiedDiff('', 'a\nb\n')).toBe('--- a\n+++ b\n@@ -0,0 +1,2 @@\n+a\n+b\n')
+      expect(createUnifiedDiff('a\n', '')).toBe('--- a\n+++ b\n@@ -1,1 +0,0 @@\n-a\n')
+    })
+  })
+
+  describe('detectDrift', () => {
+    const tempDir = join(process.cwd(), 'tests', 'temp-diff')
+
+    beforeEach(() => {
+      if (existsSync(tempDir)) {
+        rmSync(tempDir, { recursive: true })
+      }
+      mkdirSync(tempDir, { recursive: true })
+    })
+
+    afterAll(() => {
+      if (existsSync(tempDir)) {
+        rmSync(tempDir, { recursive: true })
+      }
+    })
+
+    it('reports missing, changed and stale files', () => {
+      writeFileSync(join(tempDir, 'same.ts'), 'same\n')
+      writeFileSync(join(tempDir, 'changed.ts'), 'old\n')
+      writeFileSync(join(tempDir, 'stale.ts'), 'stale\n')
+
+      const drift = detectDrift(
+        {
+          [join(tempDir, 'same.ts')]: 'same\n',
+          [join(tempDir, 'changed.ts')]: 'new\n',
+          [join(tempDir, 'missing.ts')]: 'missing\n'
+        },
+        [join(tempDir, 'stale.ts')]
+      )
+
+      expect(drift.map(({ filePath, status }) => [filePath, status])).toEqual([
+        [join(tempDir, 'changed.ts'), 'changed'],
+        [join(tempDir, 'missing.ts'), 'missing'],
+        [join(tempDir, 'stale.ts'), 'stale']
+      ])
+      expect(drift[0].diff).toContain('-old\n+new')
+      expect(drift[1].diff).toContain('--- /dev/null')
+      expect(drift[2].diff).toContain('+++ /dev/null')
+    })
+  })
+})
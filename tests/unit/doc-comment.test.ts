@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { generateMethodDoc } from '../../src/core/doc-comment'
+import type { OpenAPISchema } from '../../src/core/types'
+
+describe('Doc Comment', () => {
+  const createMockSchema = (): OpenAPISchema => ({
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/api/tasks/{id}': {
+        parameters: [{ $ref: '#/components/parameters/TaskId' } as any],
+        get: {
+          summary: 'Get a task',
+          description: 'Returns a single task.\nArchived tasks are included.',
+          parameters: [
+            { name: 'expand', in: 'query', description: 'Relations to expand' },
+            { name: 'locale', in: 'query', required: true },
+            { name: 'X-Trace', in: 'header' }
+          ],
+          responses: {
+            '200': { description: 'Success' },
+            '404': { description: 'Task not found' }
+          }
+        },
+        patch: {
+          summary: 'Update a task',
+          deprecated: true,
+          requestBody: {
+            description: 'Fields to update',
+            required: true,
+            content: { 'application/json': { schema: { type: 'object' } } }
+          },
+          responses: { '200': { description: 'Updated' } }
+        }
+      }
+    },
+    components: {
+      parameters: {
+        TaskId: { name: 'id', in: 'path', required: true, description: 'Task ID' }
+      }
+    }
+  })
+
+  describe('generateMethodDoc', () => {
+    it('documents summary, description, endpoint, params and responses', () => {
+      expect(generateMethodDoc('/api/tasks/{id}', 'get', createMockSchema())).toBe(`  /**
+   * Get a task
+   *
+   * Returns a single task.
+   * Archived tasks are included.
+   *
+   * \`GET /api/tasks/{id}\`
+   *
+   * @param params.id - Task ID
+   * @param [query.expand] - Relations to expand
+   * @param query.locale
+   * @response 200 - Success
+   * @response 404 - Task not found
+   */`)
+    })
+
+    it('documents the request body and deprecation', () => {
+      const doc = generateMethodDoc('/api/tasks/{id}', 'patch', createMockSchema())
+
+      expect(doc).toContain('   * @param body - Fields to update')
+      expect(doc).toContain('   * @deprecated')
+    })
+
+    it('escapes comment terminators in descriptions', () => {
+      const schema = createMockSchema()
+      schema.paths['/api/tasks/{id}'].get!.summary = 'Matches /api/*/tasks */ paths'
+
+      expect(generateMethodDoc('/api/tasks/{id}', 'get', schema)).toContain(
+        '   * Matches /api/*\\/tasks *\\/ paths'
+      )
+    })
+
+    it('returns an empty string for unknown operations', () => {
+      expect(generateMethodDoc('/api/tasks/{id}', 'delete', createMockSchema())).toBe('')
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { filterSchema, matchesOperationFilters, addFilterExpression } from '../../src/core/filter'
+import type { OpenAPISchema } from '../../src/core/types'
+
+describe('Filter', () => {
+  const createMockSchema = (): OpenAPISchema => ({
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/api/tasks': {
+        get: { operationId: 'getTasks', tags: ['Tasks'] },
+        post: { operationId: 'createTask', tags: ['Tasks'] }
+      },
+      '/api/tasks/{id}': {
+        delete: { operationId: 'deleteTask', tags: ['Tasks'], 'x-internal': true } as any
+      },
+      '/api/admin/users': {
+        get: { operationId: 'getUsers', tags: ['Admin'] }
+      },
+      '/api/reports': {
+        'x-visibility': 'beta',
+        get: { operationId: 'getReports', tags: ['Reports'] }
+      } as any
+    }
+  })
+
+  const operations = (schema: OpenAPISchema) =>
+    Object.entries(schema.paths).flatMap(([path, pathItem]) =>
+      Object.keys(pathItem)
+        .filter(key => !key.startsWith('x-'))
+        .map(method => `${method.toUpperCase()} ${path}`)
+    )
+
+  describe('filterSchema', () => {
+    it('returns the schema unchanged without filters', () => {
+      const schema = createMockSchema()
+      expect(filterSchema(schema, {})).toBe(schema)
+    })
+
+    it('drops operations matching any exclude criterion', () => {
+      const schema = createMockSchema()
+      const filtered = filterSchema(schema, {
+        exclude: { paths: ['/api/admin/**'], extensions: { 'x-internal': true } }
+      })
+
+      expect(operations(filtered)).toEqual([
+        'GET /api/tasks',
+        'POST /api/tasks',
+        'GET /api/reports'
+      ])
+      // Empty path items are removed and the input is not mutated
+      expect(filtered.paths['/api/tasks/{id}']).toBeUndefined()
+      expect(schema.paths['/api/tasks/{id}'].delete).toBeDefined()
+    })
+
+    it('keeps only operations matching every include criterion', () => {
+      const filtered = filterSchema(createMockSchema(), {
+        include: { tags: ['Tasks', 'Admin'], methods: ['GET'] }
+      })
+
+      expect(operations(filtered)).toEqual(['GET /api/tasks', 'GET /api/admin/users'])
+    })
+
+    it('combines include and exclude', () => {
+      const filtered = filterSchema(createMockSchema(), {
+        include: { tags: ['Tasks'] },
+        exclude: { operationIds: ['createTask'] }
+      })
+
+      expect(operations(filtered)).toEqual(['GET /api/tasks', 'DELETE /api/tasks/{id}'])
+    })
+  })
+
+  describe('matchesOperationFilters', () => {
+    it('checks extensions on the path item and supports predicates', () => {
+      const schema = createMockSchema()
+      const pathItem = schema.paths['/api/reports']
+
+      expect(
+        matchesOperationFilters('/api/reports', 'get', pathItem, {
+          exclude: { extensions: { 'x-visibility': 'beta' } }
+        })
+      ).toBe(false)
+      expect(
+        matchesOperationFilters('/api/reports', 'get', pathItem, {
+          include: { extensions: { 'x-visibility': (value: unknown) => value === 'public' } }
+        })
+      ).toBe(false)
+      expect(matchesOperationFilters('/api/reports', 'get', pathItem, {})).toBe(true)
+    })
+  })
+
+  describe('addFilterExpression', () => {
+    it('parses path globs, prefixed criteria and extensions', () => {
+      let filter = addFilterExpression({}, '/api/admin/**')
+      filter = addFilterExpression(filter, 'tag:internal')
+      filter = addFilterExpression(filter, 'method:delete')
+      filter = addFilterExpression(filter, 'operationId:getTasks')
+      filter = addFilterExpression(filter, 'x-visibility=beta')
+      filter = addFilterExpression(filter, 'x-beta=true')
+      filter = addFilterExpression(filter, 'x-internal')
+
+      expect(filter).toMatchObject({
+        paths: ['/api/admin/**'],
+        tags: ['internal'],
+        methods: ['delete'],
+        operationIds: ['getTasks'],
+        extensions: { 'x-visibility': 'beta', 'x-beta': true }
+      })
+
+      const isSet = filter.extensions!['x-internal'] as (value: unknown) => boolean
+      expect(isSet(true)).toBe(true)
+      expect(isSet('yes')).toBe(true)
+      expect(isSet(false)).toBe(false)
+      expect(isSet(undefined)).toBe(false)
+    })
+
+    it('rejects unknown expressions', () => {
+      expect(() => addFilterExpression({}, 'admin')).toThrow('Invalid filter "admin"')
+    })
+  })
+})
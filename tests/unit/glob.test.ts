@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { matchGlob, globToRegExp } from '../../src/core/glob'
+
+describe('Glob', () => {
+  describe('matchGlob', () => {
+    it('matches literal paths', () => {
+      expect(matchGlob('/api/tasks', '/api/tasks')).toBe(true)
+      expect(matchGlob('/api/tasks', '/api/tasks/{id}')).toBe(false)
+    })
+
+    it('keeps * within a single segment', () => {
+      expect(matchGlob('/api/*', '/api/tasks')).toBe(true)
+      expect(matchGlob('/api/*', '/api/tasks/{id}')).toBe(false)
+      expect(matchGlob('**/login*', '/api/login_check')).toBe(true)
+    })
+
+    it('lets ** cross segments', () => {
+      expect(matchGlob('/api/admin/**', '/api/admin/users/{id}')).toBe(true)
+      expect(matchGlob('**/auth/**', '/auth/login')).toBe(true)
+      expect(matchGlob('**/token', '/api/tokens-usage')).toBe(false)
+    })
+  })
+
+  describe('globToRegExp', () => {
+    it('escapes regular expression characters', () => {
+      expect(globToRegExp('/api/tasks/{id}').test('/api/tasks/{id}')).toBe(true)
+      expect(globToRegExp('/api/v1.0/*').test('/api/v1x0/tasks')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { singularize, pluralize, singularizePascalCase } from '../../src/core/inflection'
+
+describe('Inflection', () => {
+  describe('singularize', () => {
+    it('handles regular plurals', () => {
+      expect(singularize('tasks')).toBe('task')
+      expect(singularize('entries')).toBe('entry')
+      expect(singularize('classes')).toBe('class')
+      expect(singularize('boxes')).toBe('box')
+      expect(singularize('responses')).toBe('response')
+      expect(singularize('databases')).toBe('database')
+    })
+
+    it('handles -es and Latin/Greek plurals', () => {
+      expect(singularize('statuses')).toBe('status')
+      expect(singularize('analyses')).toBe('analysis')
+      expect(singularize('matrices')).toBe('matrix')
+      expect(singularize('indices')).toBe('index')
+      expect(singularize('quizzes')).toBe('quiz')
+      expect(singularize('wolves')).toBe('wolf')
+      expect(singularize('knives')).toBe('knife')
+      expect(singularize('movies')).toBe('movie')
+      expect(singularize('heroes')).toBe('hero')
+      expect(singularize('matches')).toBe('match')
+      expect(singularize('caches')).toBe('cache')
+      expect(singularize('niches')).toBe('niche')
+    })
+
+    it('singularizes -ies nouns that end like the -ie exceptions', () => {
+      expect(singularize('activities')).toBe('activity')
+      expect(singularize('entities')).toBe('entity')
+      expect(singularize('properties')).toBe('property')
+      expect(singularize('families')).toBe('family')
+      expect(singularize('replies')).toBe('reply')
+      expect(singularize('cities')).toBe('city')
+      expect(singularize('priorities')).toBe('priority')
+      expect(singularize('cookies')).toBe('cookie')
+      expect(singularize('ties')).toBe('tie')
+    })
+
+    it('only treats the whole word bus as irregular', () => {
+      expect(singularize('buses')).toBe('bus')
+      expect(singularize('abuses')).toBe('abuse')
+    })
+
+    it('handles irregular words', () => {
+      expect(singularize('people')).toBe('person')
+      expect(singularize('children')).toBe('child')
+    })
+
+    it('leaves uncountable and singular words alone', () => {
+      expect(singularize('news')).toBe('news')
+      expect(singularize('data')).toBe('data')
+      expect(singularize('series')).toBe('series')
+      expect(singularize('status')).toBe('status')
+      expect(singularize('person')).toBe('person')
+      expect(singularize('address')).toBe('address')
+    })
+
+    it('preserves capitalization', () => {
+      expect(singularize('Statuses')).toBe('Status')
+      expect(singularize('People')).toBe('Person')
+    })
+
+    it('uses the user dictionary', () => {
+      const config = { irregular: { cactus: 'cacti', octopus: 'octopodes' }, uncountable: ['kudos'] }
+      expect(singularize('octopodes', config)).toBe('octopus')
+      expect(singularize('kudos', config)).toBe('kudos')
+      expect(singularize('kudos')).toBe('kudo')
+    })
+  })
+
+  describe('pluralize', () => {
+    it('pluralizes words', () => {
+      expect(pluralize('task')).toBe('tasks')
+      expect(pluralize('entry')).toBe('entries')
+      expect(pluralize('status')).toBe('statuses')
+      expect(pluralize('analysis')).toBe('analyses')
+      expect(pluralize('person')).toBe('people')
+      expect(pluralize('news')).toBe('news')
+      expect(pluralize('box')).toBe('boxes')
+      expect(pluralize('cache')).toBe('caches')
+    })
+
+    it('uses the user dictionary', () => {
+      expect(pluralize('cactus', { irregular: { cactus: 'cacti' } })).toBe('cacti')
+    })
+  })
+
+  describe('singularizePascalCase', () => {
+    it('singularizes only the last word', () => {
+      expect(singularizePascalCase('TaskStatuses')).toBe('TaskStatus')
+      expect(singularizePascalCase('UserWords')).toBe('UserWord')
+      expect(singularizePascalCase('NewsItems')).toBe('NewsItem')
+      expect(singularizePascalCase('HabitEntries')).toBe('HabitEntry')
+    })
+  })
+})
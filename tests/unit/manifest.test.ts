@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest'
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  MANIFEST_FILE_NAME,
+  createManifest,
+  readManifest,
+  writeManifest,
+  getStaleFiles,
+  removeStaleFiles,
+  getToolVersion
+} from '../../src/core/manifest'
+import { hashContent } from '../../src/core/schema-fetcher'
+
+describe('Manifest', () => {
+  const outputDir = join(process.cwd(), 'tests', 'temp-manifest')
+
+  beforeEach(() => {
+    if (existsSync(outputDir)) {
+      rmSync(outputDir, { recursive: true })
+    }
+    mkdirSync(outputDir, { recursive: true })
+  })
+
+  afterAll(() => {
+    if (existsSync(outputDir)) {
+      rmSync(outputDir, { recursive: true })
+    }
+  })
+
+  describe('createManifest', () => {
+    it('records content hashes, schema hash and tool version', () => {
+      const manifest = createManifest({ 'useTasksApi.ts': 'tasks' }, 'abc')
+
+      expect(manifest).toEqual({
+        toolVersion: getToolVersion(),
+        schemaHash: 'abc',
+        files: { 'useTasksApi.ts': hashContent('tasks') }
+      })
+      expect(manifest.toolVersion).toMatch(/^\d+\.\d+\.\d+/)
+    })
+  })
+
+  describe('readManifest / writeManifest', () => {
+    it('round-trips the manifest', () => {
+      const manifest = createManifest({ 'useTasksApi.ts': 'tasks' }, 'abc')
+      writeManifest(outputDir, manifest)
+
+      expect(existsSync(join(outputDir, MANIFEST_FILE_NAME))).toBe(true)
+      expect(readManifest(outputDir)).toEqual(manifest)
+    })
+
+    it('ignores missing or corrupt manifests', () => {
+      expect(readManifest(outputDir)).toBeUndefined()
+
+      writeFileSync(join(outputDir, MANIFEST_FILE_NAME), '{ not json')
+      expect(readManifest(outputDir)).toBeUndefined()
+    })
+  })
+
+  describe('removeStaleFiles', () => {
+    it('lists previously generated files that are no longer produced', () => {
+      const previous = createManifest({ 'useTasksApi.ts': 'tasks', 'useGoalsApi.ts': 'goals' }, 'abc')
+
+      expect(getStaleFiles(previous, ['useTasksApi.ts'])).toEqual(['useGoalsApi.ts'])
+      expect(getStaleFiles(undefined, ['useTasksApi.ts'])).toEqual([])
+    })
+
+    it('deletes unmodified stale files only', () => {
+      const previous = createManifest(
+        { 'useTasksApi.ts': 'tasks', 'useGoalsApi.ts': 'goals', 'useHabitsApi.ts': 'habits' },
+        'abc'
+      )
+      writeFileSync(join(outputDir, 'useTasksApi.ts'), 'tasks')
+      writeFileSync(join(outputDir, 'useGoalsApi.ts'), 'goals')
+      writeFileSync(join(outputDir, 'useHabitsApi.ts'), 'habits, edited by hand')
+      writeFileSync(join(outputDir, 'useCustomApi.ts'), 'not generated')
+
+      const removed = removeStaleFiles(outputDir, previous, ['useTasksApi.ts'])
+
+      expect(removed).toEqual(['useGoalsApi.ts'])
+      expect(existsSync(join(outputDir, 'useTasksApi.ts'))).toBe(true)
+      expect(existsSync(join(outputDir, 'useGoalsApi.ts'))).toBe(false)
+      expect(existsSync(join(outputDir, 'useHabitsApi.ts'))).toBe(true)
+      expect(existsSync(join(outputDir, 'useCustomApi.ts'))).toBe(true)
+    })
+
+    it('never deletes files outside the output directory', () => {
+      writeFileSync(join(outputDir, 'outside.ts'), 'outside')
+      const previous = createManifest({ '../temp-manifest/outside.ts': 'outside' }, 'abc')
+
+      expect(removeStaleFiles(join(outputDir, 'sub'), previous, [])).toEqual([])
+      expect(existsSync(join(outputDir, 'outside.ts'))).toBe(true)
+    })
+  })
+})
@@ -120,6 +120,133 @@ describe('Method Generator', () => {
       expect(result).toContain("import { useOpenApi } from './useOpenApi'")
     })
 
+    it('applies the configured naming strategy', () => {
+      const schema = createMockSchema()
+      schema.paths['/api/tasks'].post!.operationId = 'createTask'
+      const result = generateComposable('tasks', schema, undefined, {
+        naming: { strategy: 'operationId' }
+      })
+
+      expect(result).toContain('const createTask = createApiMethod({')
+      expect(result).toContain('const getTasksApi = createApiMethod({')
+    })
+
+    it('passes operation IDs to the endpoint config for interceptors', () => {
+      const schema = createMockSchema()
+      schema.paths['/api/tasks'].post!.operationId = "create'Task"
+      const result = generateComposable('tasks', schema)
+
+      expect(result).toContain("    contentType: 'application/json',\n    operationId: 'create\\'Task'\n  })")
+      expect(result).toMatch(/method: 'get',\n {4}contentType: 'application\/json'\n {2}\}\)/)
+    })
+
+    it('passes security requirements to the endpoint config', () => {
+      const schema = createMockSchema()
+      schema.components = {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer' },
+          'api-key': { type: 'apiKey', in: 'query', name: 'api_key' }
+        }
+      }
+      schema.security = [{ bearerAuth: [] }, { 'api-key': [] }]
+      schema.paths['/api/tasks'].post!.security = []
+      const result = generateComposable('tasks', schema)
+
+      expect(result).toContain(
+        "    method: 'get',\n    contentType: 'application/json',\n" +
+        "    security: [{ bearerAuth: { type: 'bearer' } }, { 'api-key': { type: 'apiKey', in: 'query', name: 'api_key' } }]\n  })"
+      )
+      expect(result).toContain("    method: 'post',\n    contentType: 'application/json',\n    security: []\n  })")
+      expect(getGeneratedMethods('tasks', schema).find(method => method.httpMethod === 'post')?.security).toEqual([])
+    })
+
+    it('passes retry policies of the resource and the operation to the endpoint config', () => {
+      const schema = createMockSchema()
+      ;(schema.paths['/api/tasks'].post as Record<string, unknown>)['x-retry'] = { attempts: 3, methods: ['POST'] }
+      const result = generateComposable('tasks', schema, undefined, { retry: { tasks: { delay: 1000 } } })
+
+      expect(result).toContain("    contentType: 'application/json',\n    retry: { delay: 1000, attempts: 3, methods: ['POST'] }\n  })")
+      expect(result).toMatch(/method: 'get',\n {4}contentType: 'application\/json',\n {4}retry: \{ delay: 1000 \}\n {2}\}\)/)
+      expect(generateComposable('tasks', createMockSchema())).not.toContain('retry:')
+    })
+
+    it('prefixes each method with a JSDoc block', () => {
+      const schema = createMockSchema()
+      schema.paths['/api/tasks/{id}'].delete!.summary = 'Delete a task'
+      schema.paths['/api/tasks/{id}'].delete!.deprecated = true
+      const result = generateComposable('tasks', schema)
+
+      expect(result).toContain(`  /**
+   * Delete a task
+   *
+   * \`DELETE /api/tasks/{id}\`
+   *
+   * @response 204 - Deleted
+   * @deprecated
+   */
+  const deleteTaskApi = createApiMethod({`)
+    })
+
+    it('generates query composables for GET methods when enabled', () => {
+      const schema = createMockSchema()
+      const result = generateComposable('tasks', schema, undefined, { queries: true })
+
+      expect(result).toContain('const { createApiMethod, createQueryMethod } = useOpenApi()')
+      expect(result).toContain("const useTasksQuery = createQueryMethod(getTasksApi, '/api/tasks')")
+      expect(result).toContain("const useTaskQuery = createQueryMethod(getTaskApi, '/api/tasks/{id}')")
+      expect(result).not.toContain('createQueryMethod(postTasksApi')
+      expect(result).toMatch(/return \{\n {4}getTasksApi,\n {4}useTasksQuery,\n {4}postTasksApi,/)
+
+      expect(generateComposable('tasks', schema)).not.toContain('createQueryMethod')
+    })
+
+    it('does not reference the Vue Query helpers for async-data queries', () => {
+      const schema = createMockSchema()
+
+      for (const queries of [true, 'async-data'] as const) {
+        const result = generateComposable('tasks', schema, undefined, { queries })
+        expect(result).not.toContain('useOpenApiVueQuery')
+        expect(result).not.toContain('createQueryOptions')
+      }
+    })
+
+    it('generates a query key factory and mutation invalidates when queries are enabled', () => {
+      const schema = createMockSchema()
+      const result = generateComposable('tasks', schema, undefined, { queries: true })
+
+      expect(result).toContain("import { useOpenApi, getQueryKey } from './useOpenApi'")
+      expect(result).toContain('export const taskKeys = {')
+      expect(result).toContain("list: (query?: Record<string, unknown>) => getQueryKey('/api/tasks', { query })")
+      expect(result).toContain(
+        "detail: (id: string | number, query?: Record<string, unknown>) => getQueryKey('/api/tasks/{id}', { params: { id }, query })"
+      )
+      expect(result).toMatch(/method: 'post',\n {4}contentType: '[^']+',\n {4}invalidates: \['\/api\/tasks'\]\n/)
+      expect(result).toMatch(/method: 'delete',\n {4}contentType: '[^']+',\n {4}invalidates: \['\/api\/tasks', '\/api\/tasks\/\{id\}'\]\n/)
+
+      const withoutQueries = generateComposable('tasks', schema)
+      expect(withoutQueries).not.toContain('taskKeys')
+      expect(withoutQueries).not.toContain('invalidates')
+    })
+
+    it('generates TanStack query options, useQuery and useMutation hooks for the vue-query target', () => {
+      const schema = createMockSchema()
+      const result = generateComposable('tasks', schema, undefined, { queries: 'vue-query' })
+
+      expect(result).toContain("import { useOpenApiVueQuery } from './useOpenApiVueQuery'")
+      expect(result).toContain('const { createApiMethod } = useOpenApi()')
+      expect(result).toContain('const { createQueryOptions, createQuery, createMutation } = useOpenApiVueQuery()')
+      expect(result).toContain("const taskQueryOptions = createQueryOptions(getTaskApi, '/api/tasks/{id}')")
+      expect(result).toContain("const useTaskQuery = createQuery(getTaskApi, '/api/tasks/{id}')")
+      expect(result).toContain("const usePostTasksMutation = createMutation(postTasksApi, ['/api/tasks'])")
+      expect(result).toContain(
+        "const useDeleteTaskMutation = createMutation(deleteTaskApi, ['/api/tasks', '/api/tasks/{id}'])"
+      )
+      expect(result).toContain('export const taskKeys = {')
+      expect(result).not.toContain('invalidates:')
+      expect(result).not.toContain('createQueryMethod')
+      expect(result).toMatch(/return \{\n {4}getTasksApi,\n {4}tasksQueryOptions,\n {4}useTasksQuery,\n {4}postTasksApi,\n {4}usePostTasksMutation,/)
+    })
+
     it('returns empty string for non-existent resource', () => {
       const schema = createMockSchema()
       const result = generateComposable('nonexistent', schema)
@@ -155,6 +282,14 @@ describe('Method Generator', () => {
         contentType: 'application/json'
       })
 
+      const queryMethods = getGeneratedMethods('tasks', schema, { queries: true })
+      expect(queryMethods[0].queryName).toBe('useTasksQuery')
+      expect(queryMethods.find(m => m.name === 'patchTaskApi')?.invalidates).toEqual(['/api/tasks', '/api/tasks/{id}'])
+
+      const vueQueryMethods = getGeneratedMethods('tasks', schema, { queries: 'vue-query' })
+      expect(vueQueryMethods[0]).toMatchObject({ queryName: 'useTasksQuery', queryOptionsName: 'tasksQueryOptions' })
+      expect(vueQueryMethods.find(m => m.name === 'patchTaskApi')?.mutationName).toBe('usePatchTaskMutation')
+
       const patchItem = methods.find(m => m.name === 'patchTaskApi')
       expect(patchItem).toEqual({
         name: 'patchTaskApi',
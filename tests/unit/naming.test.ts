@@ -1,5 +1,20 @@
 import { describe, it, expect } from 'vitest'
-import { toPascalCase, getResourceName, generateMethodName } from '../../src/core/naming'
+import {
+  toPascalCase,
+  getResourceName,
+  generateMethodName,
+  operationIdToMethodName,
+  resolveMethodNames,
+  getComposableName,
+  getOpenApiComposableName,
+  getQueryName,
+  getQueryOptionsName,
+  getMutationName,
+  getVueQueryComposableName,
+  getQueryKeyHelperName,
+  getQueryKeysName,
+  getComposableFileName
+} from '../../src/core/naming'
 import type { OpenAPISchema } from '../../src/core/types'
 
 describe('Naming Utilities', () => {
@@ -99,6 +114,51 @@ describe('Naming Utilities', () => {
       }
       expect(getResourceName('/custom/path', schema)).toBe('login-check')
     })
+
+    it('does not treat paths that merely contain "token" as authentication', () => {
+      const schema = createMockSchema('/api/tokens-usage')
+      expect(getResourceName('/api/tokens-usage', schema)).toBe('tokens-usage')
+    })
+
+    it('groups login and token endpoints under authentication by default', () => {
+      const schema = createMockSchema('/api/login_check')
+      expect(getResourceName('/api/login_check', schema)).toBe('authentication')
+      expect(getResourceName('/api/token/refresh', schema)).toBe('authentication')
+    })
+
+    it('supports custom base path patterns', () => {
+      const schema = createMockSchema('/v2/tasks')
+      expect(getResourceName('/v2/tasks', schema)).toBe('')
+      expect(getResourceName('/v2/tasks', schema, { basePath: '/v{n}' })).toBe('tasks')
+      expect(getResourceName('/v2/tasks', schema, { basePath: ['/api', '/v{n}'] })).toBe('tasks')
+      expect(getResourceName('/v2/tasks', schema, { basePath: '/' })).toBe('v2')
+    })
+
+    it('applies user-defined rules before any other grouping', () => {
+      const schema = createMockSchema('/api/admin/users', 'Users')
+      const grouping = {
+        rules: [{ match: '/api/admin/**', resource: 'admin' }]
+      }
+      expect(getResourceName('/api/admin/users', schema, grouping)).toBe('admin')
+      // User rules replace the default authentication rules
+      expect(getResourceName('/api/auth/token', schema, grouping)).toBe('auth')
+    })
+
+    it('groups by tag when configured', () => {
+      const schema = createMockSchema('/api/tasks', 'TaskManagement')
+      expect(getResourceName('/api/tasks', schema, { groupBy: 'tag' })).toBe('task-management')
+    })
+
+    it('uses the resolve hook for custom grouping', () => {
+      const schema = createMockSchema('/api/tasks')
+      const grouping = {
+        groupBy: 'custom' as const,
+        resolve: ({ path, defaultName }: { path: string; defaultName: string }) =>
+          path.endsWith('/tasks') ? `legacy-${defaultName}` : undefined
+      }
+      expect(getResourceName('/api/tasks', schema, grouping)).toBe('legacy-tasks')
+      expect(getResourceName('/api/goals', schema, grouping)).toBe('goals')
+    })
   })
 
   describe('generateMethodName', () => {
@@ -159,6 +219,40 @@ describe('Naming Utilities', () => {
       })
     })
 
+    describe('singularization', () => {
+      it('singularizes irregular and -es resources for item endpoints', () => {
+        const schema = createMockSchema('/api/task-statuses/{id}')
+        expect(generateMethodName('/api/task-statuses/{id}', 'get', schema)).toBe(
+          'getTaskStatusApi'
+        )
+        expect(generateMethodName('/api/analyses/{id}', 'get', schema)).toBe('getAnalysisApi')
+        expect(generateMethodName('/api/people/{id}', 'get', schema)).toBe('getPersonApi')
+        expect(generateMethodName('/api/news/{id}', 'get', schema)).toBe('getNewsApi')
+        expect(generateMethodName('/api/activities/{id}', 'get', schema)).toBe('getActivityApi')
+      })
+
+      it('uses the configured inflection dictionary', () => {
+        const schema = createMockSchema('/api/cacti/{id}')
+        const options = {
+          naming: { inflection: { irregular: { cactus: 'cacti' }, uncountable: ['kudos'] } }
+        }
+        expect(generateMethodName('/api/cacti/{id}', 'get', schema, options)).toBe('getCactusApi')
+        expect(generateMethodName('/api/kudos/{id}', 'get', schema, options)).toBe('getKudosApi')
+      })
+    })
+
+    describe('custom base paths', () => {
+      it('ignores the base path segments', () => {
+        const schema = createMockSchema('/v2/tasks/{id}')
+        expect(
+          generateMethodName('/v2/tasks/{id}', 'get', schema, { grouping: { basePath: '/v{n}' } })
+        ).toBe('getTaskApi')
+        expect(
+          generateMethodName('/v2/tasks/random', 'get', schema, { grouping: { basePath: '/v{n}' } })
+        ).toBe('getRandomTasksApi')
+      })
+    })
+
     describe('multi-word resources', () => {
       it('handles kebab-case resource names', () => {
         const schema = createMockSchema('/api/habit-entries')
@@ -175,5 +269,168 @@ describe('Naming Utilities', () => {
       })
     })
   })
-})
 
+  describe('operationIdToMethodName', () => {
+    it('keeps camelCase operationIds', () => {
+      expect(operationIdToMethodName('createTask', 'post')).toBe('createTask')
+      expect(operationIdToMethodName('getTaskByID', 'get')).toBe('getTaskById')
+    })
+
+    it('camel-cases separated operationIds', () => {
+      expect(operationIdToMethodName('api_tasks_get_collection', 'get')).toBe(
+        'apiTasksGetCollection'
+      )
+      expect(operationIdToMethodName('Tasks.List', 'get')).toBe('tasksList')
+      expect(operationIdToMethodName('get-task by id', 'get')).toBe('getTaskById')
+    })
+
+    it('produces valid identifiers', () => {
+      expect(operationIdToMethodName('delete', 'delete')).toBe('deleteApi')
+      expect(operationIdToMethodName('2fa-verify', 'post')).toBe('post2faVerify')
+      expect(operationIdToMethodName('---', 'get')).toBe('getApi')
+    })
+  })
+
+  describe('resolveMethodNames', () => {
+    const schema: OpenAPISchema = {
+      openapi: '3.1.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/api/tasks': {
+          get: { operationId: 'listTasks' },
+          post: { operationId: 'createTask' }
+        },
+        '/api/tasks/{id}': {
+          get: {}
+        },
+        '/api/tasks/export': {
+          get: { operationId: 'exportTasks' }
+        },
+        '/api/tasks/export/': {
+          get: { operationId: 'exportTasksLegacy' }
+        }
+      }
+    }
+    const operations = [
+      { path: '/api/tasks', method: 'get' },
+      { path: '/api/tasks', method: 'post' },
+      { path: '/api/tasks/{id}', method: 'get' },
+      { path: '/api/tasks/export', method: 'get' },
+      { path: '/api/tasks/export/', method: 'get' }
+    ]
+
+    it('uses path naming by default', () => {
+      const names = resolveMethodNames(operations, schema)
+      expect(names.get('/api/tasks:get')).toBe('getTasksApi')
+      expect(names.get('/api/tasks:post')).toBe('postTasksApi')
+    })
+
+    it('uses operationIds with path fallback for the operationId strategy', () => {
+      const names = resolveMethodNames(operations, schema, { naming: { strategy: 'operationId' } })
+      expect(names.get('/api/tasks:get')).toBe('listTasks')
+      expect(names.get('/api/tasks:post')).toBe('createTask')
+      expect(names.get('/api/tasks/{id}:get')).toBe('getTaskApi')
+    })
+
+    it('only uses operationIds for colliding path names in hybrid mode', () => {
+      const names = resolveMethodNames(operations, schema, { naming: { strategy: 'hybrid' } })
+      expect(names.get('/api/tasks:get')).toBe('getTasksApi')
+      expect(names.get('/api/tasks/export:get')).toBe('exportTasks')
+      expect(names.get('/api/tasks/export/:get')).toBe('exportTasksLegacy')
+    })
+
+    it('passes operation context to the method hook', () => {
+      const contexts: any[] = []
+      const names = resolveMethodNames(operations.slice(0, 2), schema, {
+        naming: {
+          method: (context) => {
+            contexts.push(context)
+            return context.method === 'get' ? 'fetchTasks' : undefined
+          }
+        }
+      })
+
+      expect(names.get('/api/tasks:get')).toBe('fetchTasks')
+      expect(names.get('/api/tasks:post')).toBe('postTasksApi')
+      expect(contexts[0]).toEqual({
+        path: '/api/tasks',
+        method: 'get',
+        operation: { operationId: 'listTasks' },
+        resource: 'tasks',
+        defaultName: 'getTasksApi'
+      })
+    })
+
+    it('keeps hook names unique', () => {
+      const names = resolveMethodNames(operations.slice(0, 2), schema, {
+        naming: { method: () => 'callTasks' }
+      })
+      expect(new Set(names.values()).size).toBe(2)
+    })
+
+    it('rejects invalid names from the method hook', () => {
+      expect(() =>
+        resolveMethodNames(operations, schema, { naming: { method: () => 'fetch-tasks' } })
+      ).toThrow('Naming hook returned invalid method name "fetch-tasks" for GET /api/tasks')
+    })
+  })
+
+  describe('getComposableName', () => {
+    it('uses the default use{Resource}Api name', () => {
+      expect(getComposableName('goal-stats')).toBe('useGoalStatsApi')
+    })
+
+    it('derives query names from GET method names', () => {
+      expect(getQueryName('getTaskApi')).toBe('useTaskQuery')
+      expect(getQueryName('listTasks')).toBe('useListTasksQuery')
+      expect(getQueryName('getaway')).toBe('useGetawayQuery')
+    })
+
+    it('derives TanStack Vue Query hook names', () => {
+      expect(getQueryOptionsName('useTaskQuery')).toBe('taskQueryOptions')
+      expect(getMutationName('patchTaskApi')).toBe('usePatchTaskMutation')
+      expect(getMutationName('createTask')).toBe('useCreateTaskMutation')
+      expect(getVueQueryComposableName({ namespace: 'billing' })).toBe('useBillingOpenApiVueQuery')
+    })
+
+    it('derives singular query key factory names from composable names', () => {
+      expect(getQueryKeysName('useTasksApi')).toBe('taskKeys')
+      expect(getQueryKeysName('useBillingInvoicesApi')).toBe('billingInvoiceKeys')
+      expect(getQueryKeyHelperName()).toBe('getQueryKey')
+      expect(getQueryKeyHelperName({ namespace: 'billing' })).toBe('getBillingQueryKey')
+    })
+
+    it('prefixes the namespace', () => {
+      expect(getComposableName('invoices', { namespace: 'billing' })).toBe('useBillingInvoicesApi')
+      expect(getOpenApiComposableName({ namespace: 'search-api' })).toBe('useSearchApiOpenApi')
+      expect(getOpenApiComposableName()).toBe('useOpenApi')
+    })
+
+    it('applies the composable hook', () => {
+      expect(
+        getComposableName('tasks', { composable: ({ defaultName }) => defaultName.replace(/Api$/, '') })
+      ).toBe('useTasks')
+      expect(() => getComposableName('tasks', { composable: () => 'use tasks' })).toThrow(
+        'invalid composable name'
+      )
+    })
+  })
+
+  describe('getComposableFileName', () => {
+    it('follows the composable name by default', () => {
+      expect(getComposableFileName('tasks')).toBe('useTasksApi.ts')
+      expect(getComposableFileName('tasks', { composable: () => 'useTaskEndpoints' })).toBe(
+        'useTaskEndpoints.ts'
+      )
+    })
+
+    it('applies the file hook', () => {
+      expect(
+        getComposableFileName('tasks', { file: ({ resource }) => `${resource}.api.ts` })
+      ).toBe('tasks.api.ts')
+      expect(() => getComposableFileName('tasks', { file: () => '../tasks.ts' })).toThrow(
+        'invalid file name'
+      )
+    })
+  })
+})
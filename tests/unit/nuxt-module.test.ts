@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { join } from 'node:path'
+import { resolveGeneratorConfig, getGeneratedExports } from '../../src/module/nuxt'
+import { renderComposables } from '../../src/core/renderer'
+
+describe('Nuxt Module', () => {
+  const dirs = { rootDir: '/project', buildDir: '/project/.nuxt' }
+
+  describe('resolveGeneratorConfig', () => {
+    it('resolves paths against the Nuxt root dir', () => {
+      const config = resolveGeneratorConfig(
+        {
+          schemaPath: './schema/api.json',
+          outputDir: './app/composables/api',
+          typesOutputPath: './app/types/api.ts',
+          autoImport: true,
+          watch: true
+        },
+        dirs
+      )
+
+      expect(config).toEqual({
+        schemaPath: '/project/schema/api.json',
+        outputDir: '/project/app/composables/api',
+        typesOutputPath: '/project/app/types/api.ts',
+        cookieName: 'authToken',
+        baseApiPath: '/api',
+        generateTypes: false
+      })
+    })
+
+    it('applies module options over the config file over the defaults', () => {
+      const config = resolveGeneratorConfig(
+        { outputDir: './composables', naming: { strategy: 'hybrid' } },
+        dirs,
+        {
+          schemaPath: '/project/openapi/spec.yaml',
+          outputDir: '/project/generated',
+          cookieName: 'session',
+          naming: { strategy: 'operationId', inflection: { uncountable: ['status'] } }
+        }
+      )
+
+      expect(config.schemaPath).toBe('/project/openapi/spec.yaml')
+      expect(config.outputDir).toBe('/project/composables')
+      expect(config.cookieName).toBe('session')
+      expect(config.baseApiPath).toBe('/api')
+      expect(config.naming).toEqual({ strategy: 'hybrid', inflection: { uncountable: ['status'] } })
+    })
+
+    it('keeps schema URLs as-is', () => {
+      const config = resolveGeneratorConfig({ schemaPath: 'https://api.example.com/docs.json' }, dirs)
+
+      expect(config.schemaPath).toBe('https://api.example.com/docs.json')
+    })
+
+    it('emits composables and types into the build dir', () => {
+      const config = resolveGeneratorConfig(
+        { outputDir: './app/composables/api', generateTypes: true, emitToBuildDir: true },
+        dirs
+      )
+
+      expect(config.outputDir).toBe('/project/.nuxt/openapi-composables')
+      expect(config.typesOutputPath).toBe('/project/.nuxt/openapi-composables/types/api.ts')
+      expect(config.typesImportPath).toBe('#build/openapi-composables/types/api')
+    })
+
+    it('keeps client output inside the build dir', () => {
+      const config = resolveGeneratorConfig(
+        {
+          emitToBuildDir: true,
+          clients: [{ name: 'billing', schemaPath: './schema/billing.json', outputDir: './app/billing' }]
+        },
+        dirs
+      )
+
+      expect(config.clients).toEqual([
+        { name: 'billing', schemaPath: '/project/schema/billing.json', outputDir: undefined, typesOutputPath: undefined }
+      ])
+    })
+  })
+
+  describe('getGeneratedExports', () => {
+    it('lists every value a generated file exports, whatever the file is named', async () => {
+      const outputDir = '/project/.nuxt/openapi-composables'
+      const { files } = await renderComposables(
+        {
+          openapi: '3.1.0',
+          info: { title: 'Test API', version: '1.0.0' },
+          paths: { '/api/tasks': { get: { responses: { '200': { description: 'Success' } } } } }
+        },
+        { outputDir, queries: true, naming: { file: ({ resource }) => `${resource}.ts` } }
+      )
+
+      expect(getGeneratedExports(files[join(outputDir, 'tasks.ts')])).toEqual(['taskKeys', 'useTasksApi'])
+      expect(getGeneratedExports(files[join(outputDir, 'useOpenApi.ts')])).toEqual([
+        'getQueryKey',
+        'addOpenApiInterceptor',
+        'configureOpenApiAuth',
+        'configureOpenApiRetry',
+        'isApiError',
+        'useOpenApi'
+      ])
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { generateQueryKeys, getInvalidatedPaths } from '../../src/core/query-keys'
+
+describe('Query Keys', () => {
+  describe('getInvalidatedPaths', () => {
+    const getPaths = ['/api/tasks', '/api/tasks/{id}', '/api/tasks/{id}/streak', '/api/goals']
+
+    it('refreshes the collection of a create', () => {
+      expect(getInvalidatedPaths('/api/tasks', getPaths)).toEqual(['/api/tasks'])
+    })
+
+    it('refreshes the collection and item of item mutations and actions', () => {
+      expect(getInvalidatedPaths('/api/tasks/{id}', getPaths)).toEqual(['/api/tasks', '/api/tasks/{id}'])
+      expect(getInvalidatedPaths('/api/tasks/{id}/complete', getPaths)).toEqual(['/api/tasks', '/api/tasks/{id}'])
+      expect(getInvalidatedPaths('/api/tasks/{id}/streak', getPaths)).toEqual([
+        '/api/tasks',
+        '/api/tasks/{id}',
+        '/api/tasks/{id}/streak'
+      ])
+    })
+
+    it('uses the mutation parameter names', () => {
+      expect(getInvalidatedPaths('/api/tasks/{taskId}', ['/api/tasks/{id}'])).toEqual(['/api/tasks/{taskId}'])
+    })
+
+    it('returns nothing for unrelated paths', () => {
+      expect(getInvalidatedPaths('/api/users/{id}', getPaths)).toEqual([])
+    })
+  })
+
+  describe('generateQueryKeys', () => {
+    it('names the collection list and the item detail', () => {
+      const result = generateQueryKeys(
+        'taskKeys',
+        [
+          { path: '/api/tasks/{id}', methodName: 'getTaskApi' },
+          { path: '/api/tasks', methodName: 'getTasksApi' },
+          { path: '/api/tasks/{task-id}/streak', methodName: 'getTaskStreakApi' }
+        ],
+        'getQueryKey'
+      )
+
+      expect(result).toContain('export const taskKeys = {')
+      expect(result).toContain("  list: (query?: Record<string, unknown>) => getQueryKey('/api/tasks', { query })")
+      expect(result).toContain(
+        "  detail: (id: string | number, query?: Record<string, unknown>) => getQueryKey('/api/tasks/{id}', { params: { id }, query })"
+      )
+      expect(result).toContain(
+        "  taskStreak: (taskId: string | number, query?: Record<string, unknown>) => getQueryKey('/api/tasks/{task-id}/streak', { params: { 'task-id': taskId }, query })"
+      )
+    })
+
+    it('falls back to method names for duplicate key names', () => {
+      const result = generateQueryKeys(
+        'statKeys',
+        [
+          { path: '/api/stats/{id}/daily', methodName: 'getStatDailyApi' },
+          { path: '/api/stats/daily/{id}', methodName: 'getStatDaily' }
+        ],
+        'getQueryKey'
+      )
+
+      expect(result).toContain('  statDaily: (id: string | number')
+      expect(result).toContain('  getStatDaily: (id: string | number')
+    })
+
+    it('returns an empty string without GET endpoints', () => {
+      expect(generateQueryKeys('taskKeys', [], 'getQueryKey')).toBe('')
+    })
+  })
+})
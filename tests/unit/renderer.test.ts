@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest'
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { renderComposables } from '../../src/core/renderer'
+import type { OpenAPISchema } from '../../src/core/types'
+
+describe('Renderer', () => {
+  const outputDir = join(process.cwd(), 'tests', 'temp-render')
+
+  const createMockSchema = (): OpenAPISchema => ({
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/api/tasks': {
+        get: { tags: ['Tasks'], responses: { '200': { description: 'Success' } } },
+        post: { tags: ['Tasks'], responses: { '201': { description: 'Created' } } }
+      },
+      '/api/tasks/{id}': {
+        get: { tags: ['Tasks'], responses: { '200': { description: 'Success' } } }
+      },
+      '/api/admin/users': {
+        get: { tags: ['Admin'], responses: { '200': { description: 'Success' } } }
+      }
+    }
+  })
+
+  describe('renderComposables', () => {
+    it('returns a virtual file map without writing to disk', async () => {
+      const result = await renderComposables(createMockSchema(), { outputDir })
+
+      expect(Object.keys(result.files)).toEqual([
+        join(outputDir, 'useOpenApi.ts'),
+        join(outputDir, 'useTasksApi.ts'),
+        join(outputDir, 'useAdminApi.ts')
+      ])
+      expect(result.files[join(outputDir, 'useTasksApi.ts')]).toContain(
+        'export const useTasksApi = () => {'
+      )
+      expect(result.warnings).toEqual([])
+      expect(existsSync(outputDir)).toBe(false)
+    })
+
+    it('returns resources, composables and methods as metadata', async () => {
+      const result = await renderComposables(createMockSchema(), {
+        outputDir,
+        exclude: { tags: ['Admin'] }
+      })
+
+      expect(result.resources).toEqual(['tasks'])
+      expect(result.filteredOperations).toBe(1)
+      expect(result.composables).toEqual([
+        {
+          fileName: 'useTasksApi.ts',
+          composableName: 'useTasksApi',
+          resources: ['tasks'],
+          methods: [
+            { name: 'getTasksApi', path: '/api/tasks', httpMethod: 'get', contentType: 'application/json' },
+            { name: 'postTasksApi', path: '/api/tasks', httpMethod: 'post', contentType: 'application/json' },
+            { name: 'getTaskApi', path: '/api/tasks/{id}', httpMethod: 'get', contentType: 'application/json' }
+          ]
+        }
+      ])
+    })
+
+    it('includes the types file when type generation is enabled', async () => {
+      const typesOutputPath = join(outputDir, 'types', 'api.ts')
+      const result = await renderComposables(createMockSchema(), {
+        outputDir,
+        generateTypes: true,
+        typesOutputPath
+      })
+
+      expect(result.files[typesOutputPath]).toContain('export interface paths')
+      expect(existsSync(typesOutputPath)).toBe(false)
+    })
+
+    it('falls back to the configured API prefix', async () => {
+      const result = await renderComposables(createMockSchema(), { outputDir, apiPrefix: '/v2' })
+
+      const openApi = result.files[join(outputDir, 'useOpenApi.ts')]
+      expect(openApi).toContain('const prefix = config?.public?.apiPrefix')
+      expect(openApi.match(/return '\/v2'/g)).toHaveLength(2)
+      expect(openApi).toContain("If not configured, defaults to: '/v2'")
+      expect(openApi).not.toContain("return '/api/symfony'")
+    })
+
+    it('keeps the template API prefix when none is configured', async () => {
+      const result = await renderComposables(createMockSchema(), { outputDir })
+
+      const openApi = result.files[join(outputDir, 'useOpenApi.ts')]
+      expect(openApi.match(/return '\/api\/symfony'/g)).toHaveLength(2)
+      expect(openApi).toContain("If not configured, defaults to: '/api/symfony'")
+    })
+
+    it('namespaces the composables, useOpenApi and its runtime config key', async () => {
+      const result = await renderComposables(createMockSchema(), {
+        outputDir,
+        apiPrefix: '/billing',
+        naming: { namespace: 'billing' },
+        exclude: { tags: ['Admin'] }
+      })
+
+      expect(Object.keys(result.files)).toEqual([
+        join(outputDir, 'useBillingOpenApi.ts'),
+        join(outputDir, 'useBillingTasksApi.ts')
+      ])
+
+      const openApi = result.files[join(outputDir, 'useBillingOpenApi.ts')]
+      expect(openApi).toContain('export const useBillingOpenApi = () => {')
+      expect(openApi).toContain('export type BillingEndpointConfig = {')
+      expect(openApi).toContain('config?.public?.billingApiPrefix')
+      expect(openApi).toContain('NUXT_PUBLIC_BILLING_API_PREFIX')
+      expect(openApi).toContain("return '/billing'")
+      expect(openApi).toContain("const QUERY_KEY_PREFIX = 'openapi:billing'")
+      expect(openApi).toContain('export const getBillingQueryKey = ')
+      expect(openApi).toContain('export const addBillingOpenApiInterceptor = ')
+      expect(openApi).toContain('export type BillingOpenApiRequestContext = {')
+      expect(openApi).toContain('export const configureBillingOpenApiAuth = ')
+      expect(openApi).toContain('export type BillingOpenApiAuthOptions = {')
+      expect(openApi).toContain('security?: BillingOpenApiSecurityRequirement[]')
+      expect(openApi).toContain('export const configureBillingOpenApiRetry = ')
+      expect(openApi).toContain('export type BillingApiError<T extends keyof paths')
+      expect(openApi).toContain('export const isBillingApiError = ')
+      expect(openApi).toContain('export type BillingOpenApiError = Error & {')
+      expect(openApi).not.toMatch(/\b(add|configure)?OpenApi(Interceptor|RequestContext|Endpoint|Auth|AuthOptions|Security\w+|Retry|RetryPolicy|Error)\b/)
+      expect(openApi).not.toMatch(/\b(is)?ApiError\b/)
+      expect(openApi).not.toMatch(/\bgetQueryKey\b/)
+      expect(openApi).not.toMatch(/\bEndpointConfig\b|public\??\.apiPrefix|useOpenApi\b/)
+
+      const tasks = result.files[join(outputDir, 'useBillingTasksApi.ts')]
+      expect(tasks).toContain("import { useBillingOpenApi } from './useBillingOpenApi'")
+      expect(tasks).toContain('const { createApiMethod } = useBillingOpenApi()')
+      expect(tasks).toContain('export const useBillingTasksApi = () => {')
+    })
+
+    it('reads the auth token from the configured cookie', async () => {
+      const result = await renderComposables(createMockSchema(), { outputDir, cookieName: 'session' })
+
+      const openApi = result.files[join(outputDir, 'useOpenApi.ts')]
+      expect(openApi).toContain("const AUTH_COOKIE_NAME = 'session'")
+      expect(openApi).not.toContain("'authToken'")
+    })
+
+    it('renders the TanStack Vue Query helpers for the vue-query target', async () => {
+      const result = await renderComposables(createMockSchema(), {
+        outputDir,
+        queries: 'vue-query',
+        naming: { namespace: 'billing' },
+        exclude: { tags: ['Admin'] }
+      })
+
+      const vueQuery = result.files[join(outputDir, 'useBillingOpenApiVueQuery.ts')]
+      expect(vueQuery).toContain('export const useBillingOpenApiVueQuery = () => {')
+      expect(vueQuery).toContain("import { getBillingQueryKey } from './useBillingOpenApi'")
+      expect(vueQuery).not.toMatch(/\bgetQueryKey\b|\buseOpenApiVueQuery\b/)
+
+      const tasks = result.files[join(outputDir, 'useBillingTasksApi.ts')]
+      expect(tasks).toContain("import { useBillingOpenApiVueQuery } from './useBillingOpenApiVueQuery'")
+
+      const withoutVueQuery = await renderComposables(createMockSchema(), { outputDir, queries: true })
+      expect(Object.keys(withoutVueQuery.files)).not.toContain(join(outputDir, 'useOpenApiVueQuery.ts'))
+    })
+
+    it('throws when no resources remain', async () => {
+      await expect(
+        renderComposables(createMockSchema(), { outputDir, include: { tags: ['Unknown'] } })
+      ).rejects.toThrow('No API resources found in the schema')
+    })
+  })
+})
@@ -3,7 +3,8 @@ import {
   getContentType,
   extractResources,
   getResourcePaths,
-  getHttpMethods
+  getHttpMethods,
+  getSecurity
 } from '../../src/core/resource-parser'
 import type { OpenAPISchema, PathItem } from '../../src/core/types'
 
@@ -199,5 +200,52 @@ describe('Resource Parser', () => {
       expect(methods).toEqual(['get', 'post'])
     })
   })
-})
 
+  describe('getSecurity', () => {
+    const createSecuredSchema = (): OpenAPISchema => ({
+      openapi: '3.1.0',
+      info: { title: 'Test', version: '1.0.0' },
+      paths: {
+        '/api/tasks': { get: {}, post: { security: [{ apiKey: [] }, { oauth: ['tasks:write'] }] } },
+        '/api/login': { post: { security: [] } },
+        '/api/export': { get: { security: [{ basic: [], unknown: [] }] } }
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'Bearer' },
+          basic: { type: 'http', scheme: 'basic' },
+          apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+          oauth: { type: 'oauth2', flows: {} }
+        }
+      },
+      security: [{ bearerAuth: [] }]
+    })
+
+    it('falls back to the schema security requirements', () => {
+      expect(getSecurity('/api/tasks', 'get', createSecuredSchema())).toEqual([
+        { bearerAuth: { type: 'bearer' } }
+      ])
+    })
+
+    it('maps each requirement of the operation to its credentials', () => {
+      expect(getSecurity('/api/tasks', 'post', createSecuredSchema())).toEqual([
+        { apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' } },
+        { oauth: { type: 'bearer' } }
+      ])
+    })
+
+    it('returns an empty list for public operations', () => {
+      expect(getSecurity('/api/login', 'post', createSecuredSchema())).toEqual([])
+    })
+
+    it('skips requirements with undeclared schemes', () => {
+      expect(getSecurity('/api/export', 'get', createSecuredSchema())).toBeUndefined()
+    })
+
+    it('returns undefined without security requirements', () => {
+      const schema = createSecuredSchema()
+      delete schema.security
+      expect(getSecurity('/api/tasks', 'get', schema)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { getRetryPolicy, formatRetryPolicy } from '../../src/core/retry'
+import type { OpenAPISchema } from '../../src/core/types'
+
+describe('Retry', () => {
+  const createSchema = (): OpenAPISchema => ({
+    openapi: '3.1.0',
+    info: { title: 'Test', version: '1.0.0' },
+    paths: {
+      '/api/tasks': {
+        get: {},
+        post: { 'x-retry': { attempts: 3, methods: ['post'], statusCodes: [503], note: 'ignored' } } as object
+      },
+      '/api/reports': {
+        'x-retry': false,
+        get: {}
+      } as object
+    }
+  })
+
+  describe('getRetryPolicy', () => {
+    it('reads the x-retry extension of the operation', () => {
+      expect(getRetryPolicy('/api/tasks', 'post', createSchema())).toEqual({
+        attempts: 3,
+        methods: ['POST'],
+        statusCodes: [503]
+      })
+    })
+
+    it('falls back to the path item extension', () => {
+      expect(getRetryPolicy('/api/reports', 'get', createSchema())).toBe(false)
+    })
+
+    it('merges the extension over the resource policy', () => {
+      expect(getRetryPolicy('/api/tasks', 'post', createSchema(), { attempts: 5, delay: 100 })).toEqual({
+        attempts: 3,
+        delay: 100,
+        methods: ['POST'],
+        statusCodes: [503]
+      })
+      expect(getRetryPolicy('/api/tasks', 'get', createSchema(), false)).toBe(false)
+      expect(getRetryPolicy('/api/tasks', 'get', createSchema())).toBeUndefined()
+    })
+  })
+
+  describe('formatRetryPolicy', () => {
+    it('formats a policy as an object literal', () => {
+      expect(formatRetryPolicy({ attempts: 3, jitter: false, methods: ['GET', 'POST'], statusCodes: [429, 503] })).toBe(
+        "{ attempts: 3, jitter: false, methods: ['GET', 'POST'], statusCodes: [429, 503] }"
+      )
+      expect(formatRetryPolicy(false)).toBe('false')
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer } from 'node:http'
+import type { Server, IncomingHttpHeaders } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { rmSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { fetchSchema, isSchemaUrl, hashContent } from '../../src/core/schema-fetcher'
+import { loadSchema } from '../../src/core/schema-loader'
+
+describe('Schema Fetcher', () => {
+  const cacheDir = join(process.cwd(), 'tests', 'temp-schema-cache')
+  const schemaContent = JSON.stringify({
+    openapi: '3.1.0',
+    info: { title: 'Remote API', version: '1.0.0' },
+    paths: { '/api/tasks': { get: {} } }
+  })
+
+  let server: Server
+  let baseUrl: string
+  let status = 200
+  let html = false
+  let offline = false
+  let lastHeaders: IncomingHttpHeaders = {}
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      lastHeaders = req.headers
+      if (offline) {
+        req.socket.destroy()
+        return
+      }
+      if (html) {
+        res.writeHead(200, { 'Content-Type': 'text/html' })
+        res.end('<!DOCTYPE html><html><body>Please log in</body></html>')
+        return
+      }
+      if (status !== 200) {
+        res.writeHead(status)
+        res.end()
+        return
+      }
+      if (req.headers['if-none-match'] === '"v1"') {
+        res.writeHead(304)
+        res.end()
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', ETag: '"v1"' })
+      res.end(schemaContent)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+    if (existsSync(cacheDir)) {
+      rmSync(cacheDir, { recursive: true })
+    }
+  })
+
+  beforeEach(() => {
+    status = 200
+    html = false
+    offline = false
+    if (existsSync(cacheDir)) {
+      rmSync(cacheDir, { recursive: true })
+    }
+  })
+
+  describe('isSchemaUrl', () => {
+    it('detects http(s) URLs', () => {
+      expect(isSchemaUrl('https://api.example.com/docs.json')).toBe(true)
+      expect(isSchemaUrl('http://localhost:8000/api/docs.json')).toBe(true)
+      expect(isSchemaUrl('./schema/api.json')).toBe(false)
+    })
+  })
+
+  describe('fetchSchema', () => {
+    it('fetches the schema and sends custom headers', async () => {
+      const result = await fetchSchema(`${baseUrl}/api/docs.json`, {
+        cacheDir,
+        headers: { Authorization: 'Bearer secret' }
+      })
+
+      expect(result.source).toBe('network')
+      expect(result.content).toBe(schemaContent)
+      expect(result.hash).toBe(hashContent(schemaContent))
+      expect(lastHeaders.authorization).toBe('Bearer secret')
+    })
+
+    it('revalidates with the cached ETag', async () => {
+      await fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })
+      const result = await fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })
+
+      expect(lastHeaders['if-none-match']).toBe('"v1"')
+      expect(result.source).toBe('not-modified')
+      expect(result.content).toBe(schemaContent)
+    })
+
+    it('falls back to the cache when the server fails', async () => {
+      await fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })
+      status = 503
+
+      const result = await fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })
+      expect(result.source).toBe('cache')
+      expect(result.content).toBe(schemaContent)
+    })
+
+    it('throws when the server is unreachable and nothing is cached', async () => {
+      const unreachable = 'http://127.0.0.1:1/api/docs.json'
+      await expect(fetchSchema(unreachable, { cacheDir })).rejects.toThrow(
+        `Failed to fetch OpenAPI schema from ${unreachable}`
+      )
+    })
+
+    it('does not hide client errors behind the cache', async () => {
+      await fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })
+      status = 401
+
+      await expect(fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })).rejects.toThrow('401')
+    })
+
+    it('keeps the cached schema when the server answers with something else', async () => {
+      await fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })
+      html = true
+
+      await expect(fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })).rejects.toThrow(
+        'Failed to fetch OpenAPI schema'
+      )
+
+      html = false
+      offline = true
+      const result = await fetchSchema(`${baseUrl}/api/docs.json`, { cacheDir })
+      expect(result.source).toBe('cache')
+      expect(result.content).toBe(schemaContent)
+    })
+
+    it('rejects documents that are not OpenAPI or Swagger schemas', async () => {
+      html = true
+
+      await expect(fetchSchema(`${baseUrl}/api/docs.yaml`, { cacheDir })).rejects.toThrow(
+        'not an OpenAPI or Swagger document'
+      )
+    })
+  })
+
+  describe('loadSchema', () => {
+    it('loads a schema from a URL', async () => {
+      const schema = await loadSchema(`${baseUrl}/api/docs.json`, { cacheDir })
+
+      expect(schema.info.title).toBe('Remote API')
+      expect(Object.keys(schema.paths)).toEqual(['/api/tasks'])
+    })
+  })
+})
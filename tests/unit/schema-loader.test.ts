@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  detectSchemaFormat,
+  parseSchemaDocument,
+  bundleSchema,
+  loadSchema,
+  getSchemaFiles
+} from '../../src/core/schema-loader'
+
+describe('Schema Loader', () => {
+  const fixturesDir = join(process.cwd(), 'tests', 'fixtures')
+  const tempDir = join(process.cwd(), 'tests', 'temp-schema-loader')
+
+  beforeAll(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true })
+    }
+    mkdirSync(tempDir, { recursive: true })
+  })
+
+  afterAll(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true })
+    }
+  })
+
+  describe('detectSchemaFormat', () => {
+    it('uses the file extension', () => {
+      expect(detectSchemaFormat('api.yaml', '{}')).toBe('yaml')
+      expect(detectSchemaFormat('api.yml', '{}')).toBe('yaml')
+      expect(detectSchemaFormat('api.json', 'openapi: 3.1.0')).toBe('json')
+    })
+
+    it('sniffs the content when the extension is unknown', () => {
+      expect(detectSchemaFormat('schema', '  {"openapi": "3.1.0"}')).toBe('json')
+      expect(detectSchemaFormat('schema', 'openapi: 3.1.0')).toBe('yaml')
+    })
+  })
+
+  describe('parseSchemaDocument', () => {
+    it('parses YAML documents', () => {
+      expect(parseSchemaDocument('openapi: 3.1.0\npaths: {}', 'api.yaml')).toEqual({
+        openapi: '3.1.0',
+        paths: {}
+      })
+    })
+
+    it('reports the source and format on parse errors', () => {
+      expect(() => parseSchemaDocument('{ invalid', 'api.json')).toThrow(
+        'Failed to parse api.json as JSON'
+      )
+    })
+  })
+
+  describe('loadSchema', () => {
+    it('loads JSON schemas', async () => {
+      const schema = await loadSchema(join(fixturesDir, 'sample-api.json'))
+      expect(schema.openapi).toBe('3.1.0')
+      expect(schema.paths['/api/tasks']).toBeDefined()
+    })
+
+    it('bundles paths split across YAML files', async () => {
+      const schema = await loadSchema(join(fixturesDir, 'multi-file', 'openapi.yaml'))
+
+      expect(Object.keys(schema.paths)).toEqual(['/api/tasks', '/api/tasks/{id}'])
+      expect(schema.paths['/api/tasks'].get?.operationId).toBe('getTasks')
+      expect(schema.paths['/api/tasks/{id}'].delete?.operationId).toBe('deleteTask')
+    })
+
+    it('hoists external components into the root document', async () => {
+      const schema = await loadSchema(join(fixturesDir, 'multi-file', 'openapi.yaml'))
+
+      expect(schema.paths['/api/tasks'].post?.requestBody?.content['application/json'].schema)
+        .toEqual({ $ref: '#/components/schemas/Task' })
+      expect(schema.components?.schemas?.Task.properties?.subtasks.items).toEqual({
+        $ref: '#/components/schemas/Task'
+      })
+      expect(schema.paths['/api/tasks/{id}'].parameters).toEqual([
+        { $ref: '#/components/parameters/TaskId' }
+      ])
+    })
+
+    it('keeps refs back into the root document local', async () => {
+      const schema = await loadSchema(join(fixturesDir, 'multi-file', 'openapi.yaml'))
+
+      expect(schema.paths['/api/tasks'].post?.responses?.['400'].content?.['application/json'].schema)
+        .toEqual({ $ref: '#/components/schemas/Error' })
+      expect(schema.components?.schemas?.Error).toBeDefined()
+    })
+
+    it('throws for a missing schema file', async () => {
+      await expect(loadSchema(join(tempDir, 'missing.yaml'))).rejects.toThrow(
+        'OpenAPI schema file not found'
+      )
+    })
+
+    it('throws for a missing referenced file', async () => {
+      const schemaPath = join(tempDir, 'broken.yaml')
+      writeFileSync(schemaPath, "openapi: 3.1.0\npaths:\n  /api/tasks:\n    $ref: './nope.yaml'\n")
+
+      await expect(loadSchema(schemaPath)).rejects.toThrow('Referenced schema file not found')
+    })
+  })
+
+  describe('getSchemaFiles', () => {
+    it('lists the root document and every referenced file', () => {
+      const root = join(fixturesDir, 'multi-file', 'openapi.yaml')
+
+      expect(getSchemaFiles(root).sort()).toEqual(
+        [
+          root,
+          join(fixturesDir, 'multi-file', 'paths', 'tasks.yaml'),
+          join(fixturesDir, 'multi-file', 'schemas.yaml')
+        ].sort()
+      )
+    })
+
+    it('lists missing files without following them and ignores URLs', () => {
+      const schemaPath = join(tempDir, 'missing-ref.json')
+      writeFileSync(
+        schemaPath,
+        JSON.stringify({ paths: { '/api/tasks': { $ref: './missing.json#/tasks' } } })
+      )
+
+      expect(getSchemaFiles(schemaPath)).toEqual([schemaPath, join(tempDir, 'missing.json')])
+      expect(getSchemaFiles('https://api.example.com/docs.json')).toEqual([])
+    })
+  })
+
+  describe('bundleSchema', () => {
+    it('renames hoisted components that collide with root components', () => {
+      const sharedPath = join(tempDir, 'shared.yaml')
+      writeFileSync(sharedPath, 'components:\n  schemas:\n    Task:\n      type: string\n')
+
+      const schema = bundleSchema(
+        {
+          openapi: '3.1.0',
+          paths: {},
+          components: {
+            schemas: {
+              Task: { type: 'object' },
+              Other: { $ref: './shared.yaml#/components/schemas/Task' }
+            }
+          }
+        },
+        join(tempDir, 'openapi.yaml')
+      )
+
+      expect(schema.components?.schemas?.Other).toEqual({ $ref: '#/components/schemas/Task2' })
+      expect(schema.components?.schemas?.Task2).toEqual({ type: 'string' })
+    })
+
+    it('rejects circular refs that would have to be inlined', () => {
+      const loopPath = join(tempDir, 'loop.yaml')
+      writeFileSync(loopPath, "node:\n  type: object\n  properties:\n    child:\n      $ref: '#/node'\n")
+
+      expect(() =>
+        bundleSchema(
+          { openapi: '3.1.0', paths: {}, components: { schemas: { Node: { $ref: './loop.yaml#/node' } } } },
+          join(tempDir, 'openapi.yaml')
+        )
+      ).toThrow('Circular $ref')
+    })
+  })
+})
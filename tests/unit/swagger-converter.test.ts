@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest'
+import { isSwagger2, convertSwagger2 } from '../../src/core/swagger-converter'
+import type { Swagger2Schema } from '../../src/core/types'
+
+describe('Swagger Converter', () => {
+  const createSwaggerDocument = (): Swagger2Schema => ({
+    swagger: '2.0',
+    info: { title: 'Legacy API', version: '1.0.0' },
+    host: 'legacy.example.com',
+    basePath: '/v1',
+    schemes: ['https'],
+    consumes: ['application/json'],
+    produces: ['application/json'],
+    paths: {
+      '/api/tasks': {
+        get: {
+          operationId: 'getTasks',
+          tags: ['Tasks'],
+          parameters: [
+            { name: 'page', in: 'query', type: 'integer', required: false },
+            { name: 'ids', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'csv' }
+          ],
+          responses: {
+            '200': {
+              description: 'Task collection',
+              schema: { type: 'array', items: { $ref: '#/definitions/Task' } }
+            }
+          }
+        },
+        post: {
+          operationId: 'createTask',
+          parameters: [
+            { name: 'task', in: 'body', required: true, schema: { $ref: '#/definitions/Task' } }
+          ],
+          responses: {
+            '201': { description: 'Created', schema: { $ref: '#/definitions/Task' } },
+            '400': { $ref: '#/responses/BadRequest' }
+          }
+        }
+      },
+      '/api/tasks/{id}': {
+        parameters: [{ $ref: '#/parameters/TaskId' }],
+        patch: {
+          consumes: ['application/merge-patch+json'],
+          parameters: [{ name: 'task', in: 'body', schema: { $ref: '#/definitions/Task' } }],
+          responses: { '200': { description: 'Updated' } }
+        }
+      },
+      '/api/tasks/{id}/attachments': {
+        post: {
+          consumes: ['multipart/form-data'],
+          parameters: [
+            { $ref: '#/parameters/TaskId' },
+            { name: 'file', in: 'formData', type: 'file', required: true },
+            { name: 'comment', in: 'formData', type: 'string' }
+          ],
+          responses: { '204': { description: 'Uploaded' } }
+        }
+      }
+    },
+    definitions: {
+      Task: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          parent: { $ref: '#/definitions/Task', 'x-nullable': true } as any
+        }
+      }
+    },
+    parameters: {
+      TaskId: { name: 'id', in: 'path', required: true, type: 'integer' }
+    },
+    responses: {
+      BadRequest: { description: 'Bad request', schema: { type: 'object' } }
+    },
+    securityDefinitions: {
+      bearer: { type: 'apiKey', name: 'Authorization', in: 'header' },
+      basic: { type: 'basic' },
+      oauth: {
+        type: 'oauth2',
+        flow: 'accessCode',
+        authorizationUrl: 'https://auth.example.com/authorize',
+        tokenUrl: 'https://auth.example.com/token',
+        scopes: { read: 'Read access' }
+      }
+    },
+    security: [{ bearer: [] }]
+  })
+
+  describe('isSwagger2', () => {
+    it('detects Swagger 2.0 documents', () => {
+      expect(isSwagger2({ swagger: '2.0' })).toBe(true)
+      expect(isSwagger2({ openapi: '3.1.0' })).toBe(false)
+      expect(isSwagger2(null)).toBe(false)
+    })
+  })
+
+  describe('convertSwagger2', () => {
+    it('produces an OpenAPI 3 document', () => {
+      const schema = convertSwagger2(createSwaggerDocument())
+
+      expect(schema.openapi).toBe('3.0.3')
+      expect(schema.info.title).toBe('Legacy API')
+      expect(schema.servers).toEqual([{ url: 'https://legacy.example.com/v1' }])
+      expect(schema.security).toEqual([{ bearer: [] }])
+    })
+
+    it('moves definitions to components.schemas and rewrites refs', () => {
+      const schema = convertSwagger2(createSwaggerDocument())
+
+      expect(schema.components?.schemas?.Task.properties?.parent).toEqual({
+        $ref: '#/components/schemas/Task',
+        nullable: true
+      })
+      expect(schema.paths['/api/tasks'].get?.responses?.['200'].content).toEqual({
+        'application/json': {
+          schema: { type: 'array', items: { $ref: '#/components/schemas/Task' } }
+        }
+      })
+    })
+
+    it('converts body parameters to a request body using consumes', () => {
+      const schema = convertSwagger2(createSwaggerDocument())
+
+      expect(schema.paths['/api/tasks'].post?.requestBody).toEqual({
+        required: true,
+        content: {
+          'application/json': { schema: { $ref: '#/components/schemas/Task' } }
+        }
+      })
+      expect(Object.keys(schema.paths['/api/tasks/{id}'].patch!.requestBody!.content)).toEqual([
+        'application/merge-patch+json'
+      ])
+      expect(schema.paths['/api/tasks'].post?.parameters).toBeUndefined()
+    })
+
+    it('converts formData parameters to a form request body', () => {
+      const schema = convertSwagger2(createSwaggerDocument())
+      const requestBody = schema.paths['/api/tasks/{id}/attachments'].post?.requestBody
+
+      expect(requestBody?.content['multipart/form-data'].schema).toEqual({
+        type: 'object',
+        properties: {
+          file: { type: 'string', format: 'binary' },
+          comment: { type: 'string' }
+        },
+        required: ['file']
+      })
+    })
+
+    it('moves parameter types into schemas and resolves parameter refs', () => {
+      const schema = convertSwagger2(createSwaggerDocument())
+
+      expect(schema.paths['/api/tasks'].get?.parameters).toEqual([
+        { name: 'page', in: 'query', required: false, schema: { type: 'integer' } },
+        {
+          name: 'ids',
+          in: 'query',
+          schema: { type: 'array', items: { type: 'string' } },
+          style: 'form',
+          explode: false
+        }
+      ])
+      expect(schema.paths['/api/tasks/{id}'].parameters).toEqual([
+        { name: 'id', in: 'path', required: true, schema: { type: 'integer' } }
+      ])
+    })
+
+    it('resolves global responses', () => {
+      const schema = convertSwagger2(createSwaggerDocument())
+
+      expect(schema.paths['/api/tasks'].post?.responses?.['400']).toEqual({
+        description: 'Bad request',
+        content: { 'application/json': { schema: { type: 'object' } } }
+      })
+    })
+
+    it('converts security definitions to security schemes', () => {
+      const schema = convertSwagger2(createSwaggerDocument())
+
+      expect(schema.components?.securitySchemes).toEqual({
+        bearer: { type: 'apiKey', name: 'Authorization', in: 'header' },
+        basic: { type: 'http', scheme: 'basic' },
+        oauth: {
+          type: 'oauth2',
+          flows: {
+            authorizationCode: {
+              authorizationUrl: 'https://auth.example.com/authorize',
+              tokenUrl: 'https://auth.example.com/token',
+              scopes: { read: 'Read access' }
+            }
+          }
+        }
+      })
+    })
+
+    it('throws for unresolvable parameter refs', () => {
+      const document = createSwaggerDocument()
+      document.parameters = {}
+
+      expect(() => convertSwagger2(document)).toThrow('#/parameters/TaskId')
+    })
+  })
+})
@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
+import { mkdirSync, writeFileSync, rmSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { renderComposables } from '../../src/core/renderer'
+import type { OpenAPISchema } from '../../src/core/types'
+
+// Runs the rendered useOpenApi.ts with the Nuxt auto-imports stubbed
+describe('useOpenApi runtime', () => {
+  const outputDir = join(process.cwd(), 'tests', 'temp-use-open-api')
+
+  const schema: OpenAPISchema = {
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/api/tasks': {
+        get: { responses: { '200': { description: 'Success' } } }
+      }
+    }
+  }
+
+  type Template = typeof import('../../templates/useOpenApi')
+  let template: Template
+  // The same client rendered with a 'billing' namespace
+  let billing: {
+    addBillingOpenApiInterceptor: Template['addOpenApiInterceptor']
+    useBillingOpenApi: Template['useOpenApi']
+  }
+  let cookies: Map<string, { value: string | null | undefined }>
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  // ofetch errors: responses carry the status, headers and parsed body
+  const httpError = (status: number, data?: unknown, headers: Record<string, string> = {}) =>
+    Object.assign(new Error(`${status}`), { response: { status, headers: new Headers(headers), _data: data } })
+
+  const useCookie = (name: string) => {
+    if (!cookies.has(name)) cookies.set(name, { value: undefined })
+    return cookies.get(name)!
+  }
+
+  beforeAll(async () => {
+    const { files } = await renderComposables(schema, { outputDir, cookieName: 'session' })
+    mkdirSync(outputDir, { recursive: true })
+    writeFileSync(join(outputDir, 'useOpenApi.ts'), files[join(outputDir, 'useOpenApi.ts')])
+    template = await import(join(outputDir, 'useOpenApi.ts'))
+
+    const billingDir = join(outputDir, 'billing')
+    const billingFiles = (await renderComposables(schema, { outputDir: billingDir, naming: { namespace: 'billing' } })).files
+    mkdirSync(billingDir, { recursive: true })
+    writeFileSync(join(billingDir, 'useBillingOpenApi.ts'), billingFiles[join(billingDir, 'useBillingOpenApi.ts')])
+    billing = await import(join(billingDir, 'useBillingOpenApi.ts'))
+  })
+
+  afterAll(() => {
+    if (existsSync(outputDir)) {
+      rmSync(outputDir, { recursive: true })
+    }
+  })
+
+  beforeEach(() => {
+    const nuxtApp = { payload: { data: {} } }
+    cookies = new Map()
+    fetchMock = vi.fn()
+    vi.stubGlobal('useNuxtApp', () => nuxtApp)
+    vi.stubGlobal('useCookie', useCookie)
+    vi.stubGlobal('useRuntimeConfig', () => ({ public: { apiPrefix: '/backend' } }))
+    vi.stubGlobal('$fetch', fetchMock)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('auth refresh', () => {
+    it('refreshes once for concurrent 401s and retries each request with the new token', async () => {
+      useCookie('session').value = 'old'
+      const requests: string[] = []
+      fetchMock.mockImplementation(async (url: string, options: { headers: Record<string, string> }) => {
+        requests.push(`${url} ${options.headers.Authorization}`)
+        if (options.headers.Authorization !== 'Bearer new') throw httpError(401)
+        return { ok: true }
+      })
+      const refresh = vi.fn(async () => 'new')
+      template.configureOpenApiAuth({ refresh })
+
+      const { apiCall } = template.useOpenApi()
+      const results = await Promise.all([apiCall('/api/tasks'), apiCall('/api/tasks/1')])
+
+      expect(results).toEqual([{ ok: true }, { ok: true }])
+      expect(refresh).toHaveBeenCalledTimes(1)
+      expect(requests).toEqual([
+        '/backend/api/tasks Bearer old',
+        '/backend/api/tasks/1 Bearer old',
+        '/backend/api/tasks Bearer new',
+        '/backend/api/tasks/1 Bearer new'
+      ])
+      expect(useCookie('session').value).toBe('new')
+    })
+
+    it('logs out once when 401s arrive after the refresh failed', async () => {
+      useCookie('session').value = 'old'
+      let releaseLate!: () => void
+      const late = new Promise<void>(resolve => {
+        releaseLate = resolve
+      })
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.endsWith('/late')) await late
+        throw httpError(401)
+      })
+      const refresh = vi.fn(async () => false)
+      const onLogout = vi.fn()
+      template.configureOpenApiAuth({ refresh, onLogout })
+
+      const { apiCall } = template.useOpenApi()
+      const lateCall = apiCall('/api/late').catch(error => error)
+      const errors = await Promise.all([
+        apiCall('/api/tasks').catch(error => error),
+        apiCall('/api/tasks/1').catch(error => error)
+      ])
+      releaseLate()
+      errors.push(await lateCall)
+
+      expect(errors.map(error => error.status)).toEqual([401, 401, 401])
+      expect(refresh).toHaveBeenCalledTimes(1)
+      expect(onLogout).toHaveBeenCalledTimes(1)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('refreshes again for a token set after the failed refresh', async () => {
+      useCookie('session').value = 'old'
+      fetchMock.mockRejectedValue(httpError(401))
+      const refresh = vi.fn(async () => false)
+      template.configureOpenApiAuth({ refresh })
+
+      const { apiCall } = template.useOpenApi()
+      await expect(apiCall('/api/tasks')).rejects.toMatchObject({ status: 401 })
+      expect(useCookie('session').value).toBeNull()
+
+      useCookie('session').value = 'relogged'
+      await expect(apiCall('/api/tasks')).rejects.toMatchObject({ status: 401 })
+      expect(refresh).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('interceptors', () => {
+    it('sends the url and headers set by onRequest', async () => {
+      fetchMock.mockResolvedValue({ ok: true })
+      template.addOpenApiInterceptor({
+        onRequest: (context) => {
+          context.url = context.url.replace('/backend', '/proxy')
+          context.options.headers['X-Request-Id'] = 'abc'
+        }
+      })
+
+      const { apiCall } = template.useOpenApi()
+      await apiCall('/api/tasks')
+
+      expect(fetchMock.mock.calls[0][0]).toBe('/proxy/api/tasks')
+      expect(fetchMock.mock.calls[0][1].headers['X-Request-Id']).toBe('abc')
+    })
+
+    it('returns the response set by onResponse', async () => {
+      fetchMock.mockResolvedValue({ items: [1, 2] })
+      template.addOpenApiInterceptor({
+        onResponse: (context) => {
+          context.response = (context.response as { items: number[] }).items
+        }
+      })
+
+      const { apiCall } = template.useOpenApi()
+      await expect(apiCall('/api/tasks')).resolves.toEqual([1, 2])
+    })
+
+    it('recovers from an error when onError sets a response', async () => {
+      fetchMock.mockRejectedValue(httpError(404))
+      const onResponse = vi.fn()
+      template.addOpenApiInterceptor({
+        onError: (context) => {
+          if ((context.error as { response?: { status: number } }).response?.status === 404) {
+            context.response = null
+          }
+        },
+        onResponse
+      })
+
+      const { apiCall } = template.useOpenApi()
+      await expect(apiCall('/api/tasks', { retry: false })).resolves.toBeNull()
+      expect(onResponse).not.toHaveBeenCalled()
+    })
+
+    it('stops calling an interceptor once it is removed', async () => {
+      fetchMock.mockResolvedValue({ ok: true })
+      const onRequest = vi.fn()
+      const remove = template.addOpenApiInterceptor({ onRequest })
+
+      const { apiCall } = template.useOpenApi()
+      await apiCall('/api/tasks')
+      remove()
+      await apiCall('/api/tasks')
+
+      expect(onRequest).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the interceptors of namespaced clients apart', async () => {
+      fetchMock.mockResolvedValue({ ok: true })
+      const onRequest = vi.fn()
+      const onBillingRequest = vi.fn()
+      template.addOpenApiInterceptor({ onRequest })
+      billing.addBillingOpenApiInterceptor({ onRequest: onBillingRequest })
+
+      await template.useOpenApi().apiCall('/api/tasks')
+      expect(onRequest).toHaveBeenCalledTimes(1)
+      expect(onBillingRequest).not.toHaveBeenCalled()
+
+      await billing.useBillingOpenApi().apiCall('/api/invoices')
+      expect(onRequest).toHaveBeenCalledTimes(1)
+      expect(onBillingRequest).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('security requirements', () => {
+    const security = [{}, { bearerAuth: { type: 'bearer' as const } }]
+
+    it('sends the token when anonymous access is also allowed', async () => {
+      useCookie('session').value = 'secret'
+      fetchMock.mockResolvedValue({ ok: true })
+
+      const { apiCall } = template.useOpenApi()
+      await apiCall('/api/tasks', { endpoint: { path: '/api/tasks', method: 'get', security } })
+
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer secret')
+    })
+
+    it('falls back to anonymous access without a token', async () => {
+      fetchMock.mockResolvedValue({ ok: true })
+
+      const { apiCall } = template.useOpenApi()
+      await apiCall('/api/tasks', { endpoint: { path: '/api/tasks', method: 'get', security } })
+
+      expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('Authorization')
+    })
+  })
+
+  describe('retries', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('does not retry methods outside the policy', async () => {
+      fetchMock.mockRejectedValue(httpError(503))
+
+      const { apiCall } = template.useOpenApi()
+      await expect(apiCall('/api/tasks', { method: 'POST' })).rejects.toMatchObject({ status: 503 })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('waits for the Retry-After of a 503 response', async () => {
+      fetchMock.mockRejectedValueOnce(httpError(503, undefined, { 'Retry-After': '2' })).mockResolvedValue({ ok: true })
+
+      const { apiCall } = template.useOpenApi()
+      const result = apiCall('/api/tasks')
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      await expect(result).resolves.toEqual({ ok: true })
+    })
+
+    it('fails without waiting when Retry-After exceeds maxDelay', async () => {
+      fetchMock.mockRejectedValue(httpError(429, undefined, { 'Retry-After': '20' }))
+
+      const { apiCall } = template.useOpenApi()
+      await expect(apiCall('/api/tasks')).rejects.toMatchObject({ status: 429 })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('backs off exponentially with jitter', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0)
+      const networkError = Object.assign(new Error('fetch failed'), { cause: new TypeError('fetch failed') })
+      fetchMock.mockRejectedValueOnce(networkError).mockRejectedValueOnce(networkError).mockResolvedValue({ ok: true })
+
+      const { apiCall } = template.useOpenApi()
+      const result = apiCall('/api/tasks', { retry: { attempts: 3, delay: 1000 } })
+      // Jitter keeps at least half of the 1000 ms, then 2000 ms backoff
+      await vi.advanceTimersByTimeAsync(499)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      await expect(result).resolves.toEqual({ ok: true })
+    })
+
+    it('does not retry aborted requests', async () => {
+      fetchMock.mockRejectedValue(
+        Object.assign(new Error('aborted'), { cause: new DOMException('This operation was aborted', 'AbortError') })
+      )
+
+      const { apiCall } = template.useOpenApi()
+      await expect(apiCall('/api/tasks')).rejects.toMatchObject({ kind: 'abort' })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('errors', () => {
+    const endpoint = { path: '/api/tasks', method: 'post' }
+    const call = () => template.useOpenApi().apiCall('/api/tasks', { method: 'POST', endpoint, retry: false })
+
+    beforeEach(() => {
+      // Nuxt's createError keeps statusCode, statusMessage and data
+      vi.stubGlobal('createError', (input: { statusCode: number; statusMessage: string; data?: unknown }) =>
+        Object.assign(new Error(input.statusMessage), input)
+      )
+    })
+
+    it.each([
+      ['timeout', new DOMException('The operation timed out', 'TimeoutError'), 'Request Timeout'],
+      ['abort', new DOMException('This operation was aborted', 'AbortError'), 'Request Aborted'],
+      ['network', new TypeError('fetch failed'), 'Network Error']
+    ])('reports %s errors without a status', async (kind, cause, message) => {
+      fetchMock.mockRejectedValue(Object.assign(new Error('[POST] "/backend/api/tasks": <no response>'), { cause }))
+
+      const error = await call().catch(error => error)
+      expect(error).toMatchObject({ kind, status: undefined, statusCode: 500, statusMessage: message, data: undefined })
+    })
+
+    it('keeps the error response body', async () => {
+      const body = { title: 'Validation failed', violations: [{ propertyPath: 'title', message: 'Required' }] }
+      fetchMock.mockRejectedValue(httpError(422, body))
+
+      const error = await call().catch(error => error)
+      expect(error).toMatchObject({ kind: 'http', status: 422, statusCode: 422, statusMessage: 'Validation failed' })
+      expect(error.data).toEqual(body)
+    })
+
+    it('narrows errors to their endpoint', async () => {
+      fetchMock.mockRejectedValue(httpError(422, {}))
+
+      const error = await call().catch(error => error)
+      expect(template.isApiError(error, '/api/tasks', 'post')).toBe(true)
+      expect(template.isApiError(error, '/api/tasks', 'get')).toBe(false)
+      expect(template.isApiError(error, '/api/goals', 'post')).toBe(false)
+      expect(template.isApiError(Object.assign(new Error('422'), { endpoint }), '/api/tasks', 'post')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import {
+  validateOpenApiSchema,
+  meetsSeverityThreshold,
+  formatDiagnostic,
+  toJsonPointer
+} from '../../src/core/validator'
+import type { OpenAPISchema } from '../../src/core/types'
+
+describe('Validator', () => {
+  const createMockSchema = (): OpenAPISchema => ({
+    openapi: '3.1.0',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/api/tasks': {
+        get: {
+          operationId: 'getTasks',
+          responses: {
+            '200': {
+              description: 'Success',
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/Task' } }
+              }
+            }
+          }
+        }
+      },
+      '/api/tasks/{id}': {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        get: {
+          operationId: 'getTask',
+          responses: { '200': { description: 'Success' } }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        Task: { type: 'object' }
+      }
+    }
+  })
+
+  const codes = (schema: OpenAPISchema) => validateOpenApiSchema(schema).map(d => d.code)
+
+  describe('toJsonPointer', () => {
+    it('escapes slashes and tildes', () => {
+      expect(toJsonPointer(['paths', '/api/tasks', 'get'])).toBe('/paths/~1api~1tasks/get')
+      expect(toJsonPointer(['components', 'schemas', 'a~b'])).toBe('/components/schemas/a~0b')
+    })
+  })
+
+  describe('validateOpenApiSchema', () => {
+    it('accepts a valid schema', () => {
+      expect(validateOpenApiSchema(createMockSchema())).toEqual([])
+    })
+
+    it('reports a missing openapi field and empty paths', () => {
+      const schema = { info: { title: 'Test', version: '1' }, paths: {} } as unknown as OpenAPISchema
+      expect(codes(schema)).toEqual(['missing-openapi-version', 'no-paths'])
+    })
+
+    it('reports unresolved refs with their pointer', () => {
+      const schema = createMockSchema()
+      schema.components!.schemas = {}
+
+      const [diagnostic] = validateOpenApiSchema(schema)
+      expect(diagnostic).toMatchObject({
+        code: 'unresolved-ref',
+        severity: 'error',
+        pointer:
+          '/paths/~1api~1tasks/get/responses/200/content/application~1json/schema/$ref'
+      })
+    })
+
+    it('reports path template params without a definition', () => {
+      const schema = createMockSchema()
+      delete schema.paths['/api/tasks/{id}'].parameters
+
+      const [diagnostic] = validateOpenApiSchema(schema)
+      expect(diagnostic).toMatchObject({
+        code: 'missing-path-parameter',
+        severity: 'error',
+        pointer: '/paths/~1api~1tasks~1{id}/get'
+      })
+      expect(diagnostic.hint).toContain("name: 'id'")
+    })
+
+    it('accepts path params defined through a $ref', () => {
+      const schema = createMockSchema()
+      schema.paths['/api/tasks/{id}'].parameters = [
+        { $ref: '#/components/parameters/TaskId' } as any
+      ]
+      ;(schema.components as any).parameters = {
+        TaskId: { name: 'id', in: 'path', required: true }
+      }
+
+      expect(validateOpenApiSchema(schema)).toEqual([])
+    })
+
+    it('warns about path params missing from the template or not required', () => {
+      const schema = createMockSchema()
+      schema.paths['/api/tasks'].get!.parameters = [{ name: 'slug', in: 'path', required: true }]
+      schema.paths['/api/tasks/{id}'].parameters = [{ name: 'id', in: 'path' }]
+
+      expect(codes(schema)).toEqual(['unused-path-parameter', 'optional-path-parameter'])
+    })
+
+    it('reports duplicate operationIds', () => {
+      const schema = createMockSchema()
+      schema.paths['/api/tasks/{id}'].get!.operationId = 'getTasks'
+
+      const [diagnostic] = validateOpenApiSchema(schema)
+      expect(diagnostic.code).toBe('duplicate-operation-id')
+      expect(diagnostic.pointer).toBe('/paths/~1api~1tasks~1{id}/get/operationId')
+      expect(diagnostic.hint).toContain('/paths/~1api~1tasks/get')
+    })
+
+    it('treats missing responses as an error in OpenAPI 3.0 and a warning in 3.1', () => {
+      const schema = createMockSchema()
+      delete schema.paths['/api/tasks/{id}'].get!.responses
+
+      expect(validateOpenApiSchema(schema)[0]).toMatchObject({
+        code: 'missing-responses',
+        severity: 'warning'
+      })
+
+      schema.openapi = '3.0.3'
+      expect(validateOpenApiSchema(schema)[0].severity).toBe('error')
+    })
+
+    it('reports undeclared security schemes', () => {
+      const schema = createMockSchema()
+      schema.paths['/api/tasks'].get!.security = [{ bearerAuth: [] }]
+
+      expect(validateOpenApiSchema(schema)[0]).toMatchObject({
+        code: 'unknown-security-scheme',
+        pointer: '/paths/~1api~1tasks/get/security/0/bearerAuth'
+      })
+    })
+  })
+
+  describe('meetsSeverityThreshold', () => {
+    it('compares severities against the threshold', () => {
+      expect(meetsSeverityThreshold('error', 'error')).toBe(true)
+      expect(meetsSeverityThreshold('warning', 'error')).toBe(false)
+      expect(meetsSeverityThreshold('warning', 'warning')).toBe(true)
+      expect(meetsSeverityThreshold('error', 'never')).toBe(false)
+    })
+  })
+
+  describe('formatDiagnostic', () => {
+    it('includes pointer, message, code and hint', () => {
+      expect(
+        formatDiagnostic({
+          code: 'no-paths',
+          severity: 'error',
+          pointer: '/paths',
+          message: 'No paths defined',
+          hint: 'Add an endpoint.'
+        })
+      ).toBe('/paths: No paths defined (no-paths)\n  → Add an endpoint.')
+    })
+  })
+})
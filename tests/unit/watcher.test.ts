@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+import { watchComposables } from '../../src/core/watcher'
+import type { ComposablesWatcher } from '../../src/core/watcher'
+
+describe('Watcher', () => {
+  const tempDir = join(process.cwd(), 'tests', 'temp-watch')
+  const schemaPath = join(tempDir, 'api.json')
+  const outputDir = join(tempDir, 'composables')
+  let watcher: ComposablesWatcher | undefined
+
+  const writeSchema = (resources: string[]) => {
+    const paths: Record<string, unknown> = {}
+    for (const resource of resources) {
+      paths[`/api/${resource}`] = { get: { responses: { '200': { description: 'Success' } } } }
+    }
+    writeFileSync(
+      schemaPath,
+      JSON.stringify({ openapi: '3.1.0', info: { title: 'Watch API', version: '1.0.0' }, paths })
+    )
+  }
+
+  // File system events arrive asynchronously, so poll until the watcher has caught up
+  const waitFor = async (condition: () => boolean, timeout = 5000) => {
+    const start = Date.now()
+    while (!condition()) {
+      if (Date.now() - start > timeout) throw new Error('Timed out waiting for the watcher')
+      await new Promise(resolve => setTimeout(resolve, 25))
+    }
+    await watcher!.idle()
+  }
+
+  beforeEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true })
+    }
+    mkdirSync(tempDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    watcher?.close()
+    watcher = undefined
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true })
+    }
+  })
+
+  it('generates on start and regenerates when the schema changes', async () => {
+    writeSchema(['tasks', 'goals'])
+    watcher = await watchComposables({ schemaPath, outputDir }, { debounce: 20 })
+
+    expect(watcher.files).toEqual([schemaPath])
+    expect(existsSync(join(outputDir, 'useGoalsApi.ts'))).toBe(true)
+    const tasksModified = statSync(join(outputDir, 'useTasksApi.ts')).mtimeMs
+
+    writeSchema(['tasks'])
+    await waitFor(() => !existsSync(join(outputDir, 'useGoalsApi.ts')))
+
+    // Unaffected composables are not rewritten
+    expect(statSync(join(outputDir, 'useTasksApi.ts')).mtimeMs).toBe(tasksModified)
+  })
+
+  it('keeps watching after a broken schema', async () => {
+    writeSchema(['tasks'])
+    watcher = await watchComposables({ schemaPath, outputDir }, { debounce: 20 })
+
+    writeFileSync(schemaPath, '{ "openapi": ')
+    await new Promise(resolve => setTimeout(resolve, 100))
+    await watcher.idle()
+    expect(existsSync(join(outputDir, 'useTasksApi.ts'))).toBe(true)
+
+    writeSchema(['tasks', 'habits'])
+    await waitFor(() => existsSync(join(outputDir, 'useHabitsApi.ts')))
+    expect(readFileSync(join(outputDir, 'useHabitsApi.ts'), 'utf-8')).toContain('useHabitsApi')
+  })
+
+  it('rejects remote schemas', async () => {
+    await expect(
+      watchComposables({ schemaPath: 'https://api.example.com/docs.json', outputDir })
+    ).rejects.toThrow('Watch mode requires a local schema file')
+  })
+})
@@ -23,17 +23,19 @@ export default defineConfig({
     'pathe',
     'commander',
     'consola',
-    'openapi-typescript'
+    'openapi-typescript',
+    'yaml',
+    'jiti'
   ],
   async onSuccess() {
-    // Copy useOpenApi.ts template to dist/templates/
+    // Copy the useOpenApi.ts and useOpenApiVueQuery.ts templates to dist/templates/
     const templateDir = join(process.cwd(), 'dist', 'templates')
-    const sourceFile = join(process.cwd(), 'templates', 'useOpenApi.ts')
-    const destFile = join(templateDir, 'useOpenApi.ts')
-    
     mkdirSync(templateDir, { recursive: true })
-    copyFileSync(sourceFile, destFile)
-    console.log('✓ Copied useOpenApi.ts template to dist/templates/')
+
+    for (const fileName of ['useOpenApi.ts', 'useOpenApiVueQuery.ts']) {
+      copyFileSync(join(process.cwd(), 'templates', fileName), join(templateDir, fileName))
+      console.log(`✓ Copied ${fileName} template to dist/templates/`)
+    }
   }
 })
 